@@ -0,0 +1,100 @@
+import { afterEach, beforeEach } from '@jest/globals'
+import { createServer, type AddressInfo } from 'node:net'
+import {
+  startSimulator,
+  type Simulator,
+  type SimulatorOptions
+} from '../src/simulator.js'
+import * as core from './core.js'
+
+/**
+ * Inputs of a run that forks service-789 of project-456 now
+ */
+const FORK_INPUTS: Record<string, string> = {
+  project_id: 'project-456',
+  service_id: 'service-789',
+  fork_strategy: 'now'
+}
+
+/**
+ * The action running against the local API simulator
+ */
+export interface SimulatedAction {
+  /** The simulator started by the last call of start() */
+  simulator: Simulator
+  /** Inputs of the action, replaced by start() */
+  inputs: Record<string, string>
+  /** State saved by run() for post(), emptied before each test */
+  state: Record<string, string>
+  /** Starts the simulator and points the inputs of the action at it */
+  start(
+    options?: SimulatorOptions,
+    inputs?: Record<string, string>
+  ): Promise<void>
+}
+
+/**
+ * Runs the action end to end against the local API simulator, with only
+ * @actions/core mocked. Call it inside a describe block of a test file that
+ * mocks @actions/core with ./core.js, so that its hooks run after the hooks of
+ * the enclosing blocks
+ */
+export function simulateAction(): SimulatedAction {
+  const inputs: Record<string, string> = {}
+  const state: Record<string, string> = {}
+  let simulator: Simulator | undefined
+
+  const clear = (values: Record<string, string>): void => {
+    for (const name of Object.keys(values)) delete values[name]
+  }
+
+  beforeEach(() => {
+    clear(inputs)
+    clear(state)
+    core.getInput.mockImplementation((name: string) => inputs[name] || '')
+    core.saveState.mockImplementation((name: string, value: unknown) => {
+      state[name] = String(value)
+    })
+    core.getState.mockImplementation((name: string) => state[name] || '')
+  })
+
+  afterEach(async () => {
+    await simulator?.close()
+    simulator = undefined
+    core.getInput.mockReset()
+    core.saveState.mockReset()
+    core.getState.mockReset()
+  })
+
+  return {
+    get simulator(): Simulator {
+      if (!simulator) throw new Error('start() was not called')
+      return simulator
+    },
+    inputs,
+    state,
+    async start(options = {}, values = FORK_INPUTS): Promise<void> {
+      simulator = await startSimulator({
+        apiKey: 'public-key:secret-key',
+        ...options
+      })
+      clear(inputs)
+      Object.assign(inputs, {
+        api_key: 'public-key:secret-key',
+        api_url: simulator.url,
+        ...values
+      })
+    }
+  }
+}
+
+/**
+ * Returns a local port that nothing listens on
+ */
+export async function closedPort(): Promise<number> {
+  const server = createServer()
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+  await new Promise((resolve) => server.close(resolve))
+  return port
+}
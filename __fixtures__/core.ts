@@ -11,3 +11,17 @@ export const warning = jest.fn<typeof core.warning>()
 export const setSecret = jest.fn<typeof core.setSecret>()
 export const saveState = jest.fn<typeof core.saveState>()
 export const getState = jest.fn<typeof core.getState>()
+export const getIDToken = jest.fn<typeof core.getIDToken>()
+export const startGroup = jest.fn<typeof core.startGroup>()
+export const endGroup = jest.fn<typeof core.endGroup>()
+export const exportVariable = jest.fn<typeof core.exportVariable>()
+
+// Chainable stand-in for core.summary, inspected through its methods
+export const summary = {
+  addHeading: jest.fn(() => summary),
+  addTable: jest.fn(() => summary),
+  addRaw: jest.fn(() => summary),
+  addList: jest.fn(() => summary),
+  addEOL: jest.fn(() => summary),
+  write: jest.fn(() => Promise.resolve(summary))
+}
@@ -0,0 +1,73 @@
+import { createServer } from 'node:http'
+import type { AddressInfo } from 'node:net'
+
+/**
+ * A request received by the GitHub API mock
+ */
+export interface GitHubRequest {
+  method: string
+  path: string
+  authorization?: string
+  body?: unknown
+}
+
+/**
+ * Response returned by a GitHub API mock handler
+ */
+export interface GitHubResponse {
+  status: number
+  body?: unknown
+}
+
+/**
+ * A running GitHub API mock
+ */
+export interface GitHubMock {
+  url: string
+  requests: GitHubRequest[]
+  close(): Promise<void>
+}
+
+/**
+ * Starts a local mock of the GitHub REST API
+ *
+ * @param handler - Returns the response for each request
+ * @returns The running mock
+ */
+export async function startGitHubMock(
+  handler: (request: GitHubRequest) => GitHubResponse
+): Promise<GitHubMock> {
+  const requests: GitHubRequest[] = []
+
+  const server = createServer(async (req, res) => {
+    const chunks: Buffer[] = []
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer)
+    }
+    const text = Buffer.concat(chunks).toString('utf8')
+    const request: GitHubRequest = {
+      method: req.method || 'GET',
+      path: req.url || '/',
+      authorization: req.headers.authorization,
+      body: text ? JSON.parse(text) : undefined
+    }
+    requests.push(request)
+
+    const { status, body } = handler(request)
+    res.writeHead(status, { 'Content-Type': 'application/json' })
+    res.end(body === undefined ? '' : JSON.stringify(body))
+  })
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()))
+        server.closeAllConnections()
+      })
+  }
+}
@@ -0,0 +1,270 @@
+import { createServer, type Socket } from 'node:net'
+import type { AddressInfo } from 'node:net'
+import { TLSSocket } from 'node:tls'
+import { cert, key } from './tls.js'
+
+/**
+ * Code of the SSLRequest message of the PostgreSQL protocol
+ */
+const SSL_REQUEST_CODE = 80877103
+
+/**
+ * Result of a query, as returned by a query handler
+ */
+export interface PostgresQueryResult {
+  /** Rows to return, all columns are sent as text */
+  rows?: Record<string, string | null>[]
+  /** Command tag, e.g. UPDATE 3 (default: derived from the query) */
+  command?: string
+  /** Error to respond with instead */
+  error?: {
+    code: string
+    message: string
+    /** 1-based character position of the error in the query */
+    position?: number
+  }
+}
+
+/**
+ * Options for the PostgreSQL mock
+ */
+export interface PostgresMockOptions {
+  /** Password expected for any user */
+  password: string
+  /** Answer SSLRequests with S and switch to TLS (default: false) */
+  acceptSsl?: boolean
+  /** Reject the first N startups with "the database system is starting up" */
+  startupErrors?: number
+  /** Returns the result of a simple query (default: an empty result) */
+  onQuery?: (sql: string) => PostgresQueryResult | void
+}
+
+/**
+ * A running PostgreSQL mock
+ */
+export interface PostgresMock {
+  port: number
+  /** Number of connections accepted so far */
+  connections: number
+  /** Users that authenticated successfully */
+  authenticated: string[]
+  /** Simple queries received, in order */
+  queries: string[]
+  close(): Promise<void>
+}
+
+/**
+ * Builds a backend message
+ *
+ * @param type - The message type
+ * @param body - The message body
+ * @returns The message
+ */
+function message(type: string, body: Buffer): Buffer {
+  const header = Buffer.alloc(5)
+  header.write(type, 0)
+  header.writeInt32BE(body.length + 4, 1)
+  return Buffer.concat([header, body])
+}
+
+/**
+ * Builds an ErrorResponse message
+ *
+ * @param severity - The severity, e.g. ERROR or FATAL
+ * @param error - The error
+ * @returns The message
+ */
+function errorResponse(
+  severity: string,
+  error: NonNullable<PostgresQueryResult['error']>
+): Buffer {
+  const position = error.position ? `P${error.position}\0` : ''
+  const fields = `S${severity}\0V${severity}\0C${error.code}\0M${error.message}\0${position}\0`
+  return message('E', Buffer.from(fields, 'utf8'))
+}
+
+/**
+ * Builds an Authentication message
+ *
+ * @param kind - The authentication request type (0 = ok, 3 = cleartext)
+ * @returns The message
+ */
+function authentication(kind: number): Buffer {
+  const body = Buffer.alloc(4)
+  body.writeInt32BE(kind, 0)
+  return message('R', body)
+}
+
+/**
+ * Builds the messages answering a simple query
+ *
+ * @param sql - The query
+ * @param result - The result to send
+ * @returns The messages, ending with ReadyForQuery
+ */
+function queryResponse(sql: string, result: PostgresQueryResult): Buffer {
+  const ready = message('Z', Buffer.from('I'))
+  if (result.error) {
+    return Buffer.concat([errorResponse('ERROR', result.error), ready])
+  }
+
+  const messages: Buffer[] = []
+  const rows = result.rows || []
+  if (result.rows) {
+    const columns = Object.keys(rows[0] || {})
+    const fields = columns.map((column) => {
+      const name = Buffer.from(`${column}\0`, 'utf8')
+      const attributes = Buffer.alloc(18)
+      attributes.writeInt32BE(25, 6) // text
+      attributes.writeInt16BE(-1, 10)
+      attributes.writeInt32BE(-1, 12)
+      return Buffer.concat([name, attributes])
+    })
+    const count = Buffer.alloc(2)
+    count.writeInt16BE(columns.length, 0)
+    messages.push(message('T', Buffer.concat([count, ...fields])))
+
+    for (const row of rows) {
+      const values = columns.map((column) => {
+        const value = row[column]
+        const length = Buffer.alloc(4)
+        if (value === null) {
+          length.writeInt32BE(-1, 0)
+          return length
+        }
+        const data = Buffer.from(value, 'utf8')
+        length.writeInt32BE(data.length, 0)
+        return Buffer.concat([length, data])
+      })
+      messages.push(message('D', Buffer.concat([count, ...values])))
+    }
+  }
+
+  const verb = sql.trim().split(/\s+/)[0].toUpperCase()
+  const command =
+    result.command || (result.rows ? `SELECT ${rows.length}` : verb)
+  messages.push(message('C', Buffer.from(`${command}\0`, 'utf8')))
+  return Buffer.concat([...messages, ready])
+}
+
+/**
+ * Starts a TCP server speaking just enough of the PostgreSQL protocol to
+ * authenticate with a cleartext password, optionally over TLS, and answer
+ * simple queries
+ *
+ * @param options - Mock options
+ * @returns The running mock
+ */
+export async function startPostgresMock(
+  options: PostgresMockOptions
+): Promise<PostgresMock> {
+  let startupErrors = options.startupErrors ?? 0
+  const sockets = new Set<Socket>()
+
+  const mock: Omit<PostgresMock, 'port' | 'close'> = {
+    connections: 0,
+    authenticated: [],
+    queries: []
+  }
+
+  const serve = (stream: Socket): void => {
+    let buffer = Buffer.alloc(0)
+    let started = false
+    let user = ''
+
+    const onData = (data: Buffer): void => {
+      buffer = Buffer.concat([buffer, data])
+
+      for (;;) {
+        // Startup messages have no type byte
+        const offset = started ? 1 : 0
+        if (buffer.length < offset + 4) {
+          return
+        }
+        const length = buffer.readInt32BE(offset)
+        if (buffer.length < offset + length) {
+          return
+        }
+        const type = started ? String.fromCharCode(buffer[0]) : ''
+        const body = buffer.subarray(offset + 4, offset + length)
+        buffer = buffer.subarray(offset + length)
+
+        if (!started && body.readInt32BE(0) === SSL_REQUEST_CODE) {
+          if (!options.acceptSsl) {
+            stream.write('N')
+            continue
+          }
+          stream.off('data', onData)
+          stream.write('S')
+          serve(
+            new TLSSocket(stream, { isServer: true, key, cert }).on(
+              'error',
+              () => stream.destroy()
+            )
+          )
+          return
+        } else if (!started) {
+          started = true
+          const params = body.subarray(4).toString('utf8').split('\0')
+          user = params[params.indexOf('user') + 1]
+          if (startupErrors > 0) {
+            startupErrors--
+            stream.end(
+              errorResponse('FATAL', {
+                code: '57P03',
+                message: 'the database system is starting up'
+              })
+            )
+            return
+          }
+          stream.write(authentication(3))
+        } else if (type === 'p') {
+          const password = body.toString('utf8').replace(/\0$/, '')
+          if (password !== options.password) {
+            stream.end(
+              errorResponse('FATAL', {
+                code: '28P01',
+                message: `password authentication failed for user "${user}"`
+              })
+            )
+            return
+          }
+          mock.authenticated.push(user)
+          stream.write(
+            Buffer.concat([authentication(0), message('Z', Buffer.from('I'))])
+          )
+        } else if (type === 'Q') {
+          const sql = body.toString('utf8').replace(/\0$/, '')
+          mock.queries.push(sql)
+          stream.write(queryResponse(sql, options.onQuery?.(sql) || {}))
+        } else if (type === 'X') {
+          stream.end()
+          return
+        }
+      }
+    }
+    stream.on('data', onData)
+  }
+
+  const server = createServer((socket) => {
+    mock.connections++
+    sockets.add(socket)
+    socket.on('close', () => sockets.delete(socket))
+    socket.on('error', () => socket.destroy())
+    serve(socket)
+  })
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+
+  return Object.assign(mock, {
+    port,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        for (const socket of sockets) {
+          socket.destroy()
+        }
+        server.close((error) => (error ? reject(error) : resolve()))
+      })
+  })
+}
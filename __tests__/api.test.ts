@@ -0,0 +1,191 @@
+/**
+ * Tests for the retries and timeouts of the API client, src/api.ts, running
+ * the action against the local API simulator
+ */
+import { jest } from '@jest/globals'
+import { simulateAction } from '../__fixtures__/action.js'
+import * as core from '../__fixtures__/core.js'
+
+jest.unstable_mockModule('@actions/core', () => core)
+
+const { run, post } = await import('../src/main.js')
+
+describe('api.ts', () => {
+  const action = simulateAction()
+  const { inputs, state } = action
+
+  it('Fails with the API error when the fork request is rejected', async () => {
+    await action.start({
+      faults: [
+        {
+          operation: 'forkService',
+          status: 403,
+          body: { code: 'FORBIDDEN', message: 'Forking is not allowed' }
+        }
+      ]
+    })
+
+    await run()
+
+    expect(core.setFailed).toHaveBeenCalledWith(
+      'API Error (FORBIDDEN): Forking is not allowed. Check that the API key ' +
+        'belongs to the project and is allowed to manage its services.'
+    )
+    expect(core.setOutput).toHaveBeenCalledWith('error_code', 'FORBIDDEN')
+    expect(action.simulator.services.size).toBe(0)
+  })
+
+  it('Fails when the API key is rejected', async () => {
+    await action.start()
+    inputs.api_key = 'public-key:wrong-secret'
+
+    await run()
+
+    expect(core.setFailed).toHaveBeenCalledWith(
+      expect.stringContaining('API Error (UNAUTHORIZED): Invalid API key. ')
+    )
+    expect(core.setOutput).toHaveBeenCalledWith('error_code', 'UNAUTHORIZED')
+  })
+
+  it('Retries status checks that fail with transient errors', async () => {
+    await action.start({
+      statuses: ['QUEUED', 'READY'],
+      faults: [
+        { operation: 'getService', status: 503, times: 2, retryAfter: 0 }
+      ]
+    })
+
+    await run()
+
+    expect(core.setFailed).not.toHaveBeenCalled()
+    expect(core.warning).toHaveBeenCalledWith(
+      expect.stringContaining(
+        'GET /projects/project-456/services/fork000001 failed (attempt 1/4)'
+      )
+    )
+    expect(
+      action.simulator.requests.filter((r) => r.operation === 'getService')
+    ).toHaveLength(3)
+  })
+
+  it('Retries the fork request when it is rate limited', async () => {
+    await action.start({
+      statuses: ['READY'],
+      faults: [{ operation: 'forkService', status: 429, retryAfter: 0 }]
+    })
+
+    await run()
+
+    expect(core.setFailed).not.toHaveBeenCalled()
+    expect(core.warning).toHaveBeenCalledWith(
+      expect.stringContaining('as requested by Retry-After')
+    )
+    expect(action.simulator.services.size).toBe(1)
+  })
+
+  it('Does not retry the fork request after a server error', async () => {
+    await action.start({
+      faults: [{ operation: 'forkService', status: 502, times: 3 }]
+    })
+
+    await run()
+
+    expect(core.setFailed).toHaveBeenCalledWith(
+      expect.stringContaining('was not retried because it may already')
+    )
+    expect(action.simulator.requests).toHaveLength(1)
+  })
+
+  it('Gives up after retry_attempts attempts', async () => {
+    await action.start({
+      faults: [
+        { operation: 'forkService', status: 429, times: 5, retryAfter: 0 }
+      ]
+    })
+    inputs.retry_attempts = '2'
+
+    await run()
+
+    expect(core.setFailed).toHaveBeenCalledWith(
+      expect.stringContaining('gave up after 2 attempts')
+    )
+    expect(action.simulator.requests).toHaveLength(2)
+  })
+
+  it('Uses retry_attempts for the requests of post()', async () => {
+    await action.start({
+      statuses: ['READY'],
+      faults: [
+        { operation: 'deleteService', status: 503, times: 5, retryAfter: 0 }
+      ]
+    })
+    inputs.cleanup = 'true'
+    inputs.retry_attempts = '2'
+
+    await run()
+    await post()
+
+    expect(
+      action.simulator.requests.filter((r) => r.operation === 'deleteService')
+    ).toHaveLength(2)
+    expect(core.warning).toHaveBeenCalledWith(
+      expect.stringContaining('gave up after 2 attempts')
+    )
+  })
+
+  it('Aborts and retries status checks that hang', async () => {
+    await action.start({
+      statuses: ['QUEUED', 'READY'],
+      faults: [{ operation: 'getService', status: 503, delayMs: 500 }]
+    })
+    inputs.request_timeout = '0.1'
+
+    await run()
+
+    expect(core.setFailed).not.toHaveBeenCalled()
+    expect(core.warning).toHaveBeenCalledWith(
+      expect.stringContaining('timed out after 0.1s')
+    )
+  })
+
+  it('Waits for the response of a slow fork request', async () => {
+    await action.start({
+      statuses: ['READY'],
+      faults: [
+        { operation: 'forkService', status: 429, retryAfter: 0, delayMs: 300 }
+      ]
+    })
+    inputs.request_timeout = '0.1'
+    inputs.cleanup = 'true'
+
+    await run()
+
+    expect(core.setFailed).not.toHaveBeenCalled()
+    expect(core.warning).not.toHaveBeenCalledWith(
+      expect.stringContaining('timed out')
+    )
+    expect(state.forked_service_ids).toBe(JSON.stringify(['fork000001']))
+
+    await post()
+
+    expect(action.simulator.services.get('fork000001')?.status).toBe('DELETED')
+  })
+
+  it('Does not retry a fork request that fails slowly', async () => {
+    await action.start({
+      faults: [{ operation: 'forkService', status: 503, delayMs: 300 }]
+    })
+    inputs.request_timeout = '0.1'
+
+    await run()
+
+    expect(core.setFailed).toHaveBeenCalledWith(
+      expect.stringContaining('was not retried because it may already')
+    )
+    expect(core.setOutput).not.toHaveBeenCalledWith(
+      'error_code',
+      'REQUEST_TIMEOUT'
+    )
+    expect(action.simulator.requests).toHaveLength(1)
+  })
+})
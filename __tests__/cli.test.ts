@@ -0,0 +1,247 @@
+/**
+ * Tests for the command line interface against the local API simulator,
+ * src/cli.ts
+ */
+import { runCli } from '../src/cli.js'
+import { startSimulator, type Simulator } from '../src/simulator.js'
+import type { Service } from '../src/types.js'
+
+describe('cli.ts', () => {
+  let simulator: Simulator
+  let env: NodeJS.ProcessEnv
+  let stdout: string
+  let stderr: string
+
+  const existing: Service = {
+    service_id: 'fork-earlier',
+    project_id: 'project-456',
+    name: 'pr-42',
+    region_code: 'us-east-1',
+    created: '2025-10-01T15:29:00Z',
+    status: 'READY',
+    initial_password: 'secret',
+    endpoint: { host: 'fork-earlier.example.com', port: 5432 },
+    forked_from: { project_id: 'project-456', service_id: 'service-789' }
+  }
+
+  async function cli(...args: string[]): Promise<number> {
+    return runCli(args, env, {
+      stdout: { write: (chunk: string) => (stdout += chunk) },
+      stderr: { write: (chunk: string) => (stderr += chunk) }
+    })
+  }
+
+  beforeEach(async () => {
+    simulator = await startSimulator({
+      apiKey: 'public-key:secret-key',
+      statuses: ['QUEUED', 'READY'],
+      existingServices: [existing]
+    })
+    env = {
+      TIGERDATA_PROJECT_ID: 'project-456',
+      TIGERDATA_API_KEY: 'public-key:secret-key',
+      TIGERDATA_API_URL: simulator.url
+    }
+    stdout = ''
+    stderr = ''
+  })
+
+  afterEach(async () => {
+    await simulator.close()
+  })
+
+  it('Forks a service and prints the outputs as JSON', async () => {
+    const code = await cli(
+      'fork',
+      '--service-id',
+      'service-789',
+      '--fork-strategy=now',
+      '--name',
+      'local-fork',
+      '--json'
+    )
+
+    expect(code).toBe(0)
+    const outputs = JSON.parse(stdout)
+    expect(outputs).toMatchObject({
+      service_id: 'fork000001',
+      name: 'local-fork',
+      port: '5432',
+      initial_password: 'password-fork000001',
+      reused: 'false'
+    })
+    expect(outputs.status_timeline.map((t: Service) => t.status)).toEqual([
+      'QUEUED',
+      'READY'
+    ])
+    expect(stderr).toContain('Service fork000001 is ready!')
+  })
+
+  it('Prints the outputs as text', async () => {
+    env.TIGERDATA_SERVICE_ID = 'service-789'
+
+    const code = await cli(
+      'fork',
+      '--fork-strategy',
+      'last-snapshot',
+      '--verbose'
+    )
+
+    expect(code).toBe(0)
+    expect(stdout).toContain('service_id:        fork000001\n')
+    // There is no job summary outside of GitHub Actions
+    expect(stderr).not.toContain('job summary')
+    expect(stdout).toContain(
+      'connection_string: postgresql://tsdbadmin:password-fork000001@'
+    )
+    expect(simulator.requests[0].body).toEqual({
+      fork_strategy: 'LAST_SNAPSHOT'
+    })
+  })
+
+  it('Fails with the error code when the fork fails', async () => {
+    const code = await cli(
+      'fork',
+      '--service-id',
+      'service-789',
+      '--fork-strategy',
+      'timestamp',
+      '--json'
+    )
+
+    expect(code).toBe(1)
+    expect(JSON.parse(stdout)).toEqual({
+      error: {
+        code: 'INVALID_INPUT',
+        message:
+          'target_time input is required when using "timestamp" forking strategy'
+      }
+    })
+    expect(stderr).toContain(
+      'Error: target_time input is required when using "timestamp" forking strategy'
+    )
+  })
+
+  it('Reads only the credentials and IDs from the environment', async () => {
+    env.TIGERDATA_SERVICE_ID = 'service-789'
+    env.TIGERDATA_FORK_STRATEGY = 'now'
+    env.TIGERDATA_NAME = 'name-of-another-tool'
+
+    expect(await cli('fork')).toBe(1)
+    expect(stderr).toContain('Error: Missing option --fork-strategy\n')
+
+    expect(await cli('fork', '--fork-strategy', 'now')).toBe(0)
+    expect(simulator.requests[0].body).toEqual({ fork_strategy: 'NOW' })
+  })
+
+  it('Rejects the cleanup options, since there is no post step', async () => {
+    const code = await cli(
+      'fork',
+      '--service-id',
+      'service-789',
+      '--fork-strategy',
+      'now',
+      '--cleanup',
+      'always',
+      '--json'
+    )
+
+    expect(code).toBe(1)
+    expect(JSON.parse(stdout)).toEqual({
+      error: {
+        code: 'INVALID_INPUT',
+        message:
+          '--cleanup is not supported: the CLI has no post step, delete the fork with the delete command instead'
+      }
+    })
+    expect(stderr).not.toContain('does not use --cleanup')
+    expect(simulator.requests).toHaveLength(0)
+  })
+
+  it('Shows the status of a service without its password', async () => {
+    const code = await cli('status', 'fork-earlier')
+
+    expect(code).toBe(0)
+    expect(stdout).toBe(
+      [
+        'service_id:  fork-earlier',
+        'name:        pr-42',
+        'status:      READY',
+        'host:        fork-earlier.example.com',
+        'port:        5432',
+        'created:     2025-10-01T15:29:00Z',
+        'forked_from: service-789',
+        ''
+      ].join('\n')
+    )
+  })
+
+  it('Never takes a positional argument as the value of a flag', async () => {
+    const code = await cli('status', '--json', 'fork-earlier')
+
+    expect(code).toBe(0)
+    expect(JSON.parse(stdout)).toMatchObject({
+      service_id: 'fork-earlier',
+      status: 'READY'
+    })
+    expect(stderr).toBe('')
+  })
+
+  it('Lists the services of the project', async () => {
+    expect(await cli('list')).toBe(0)
+    expect(stdout).toBe(
+      'SERVICE ID    NAME   STATUS  CREATED               FORKED FROM\n' +
+        'fork-earlier  pr-42  READY   2025-10-01T15:29:00Z  service-789\n'
+    )
+
+    stdout = ''
+    expect(await cli('list', '--json')).toBe(0)
+    expect(JSON.parse(stdout)).toEqual([
+      expect.not.objectContaining({ initial_password: expect.anything() })
+    ])
+  })
+
+  it('Deletes a service and waits until it is gone', async () => {
+    const code = await cli(
+      'delete',
+      '--service-id',
+      'fork-earlier',
+      '--wait-for-deletion',
+      '--json'
+    )
+
+    expect(code).toBe(0)
+    expect(JSON.parse(stdout)).toEqual({
+      service_id: 'fork-earlier',
+      deleted: true,
+      verified: true
+    })
+    expect(simulator.services.get('fork-earlier')?.status).toBe('DELETED')
+  })
+
+  it('Reports API errors', async () => {
+    const code = await cli('status', 'missing', '--json')
+
+    expect(code).toBe(1)
+    expect(JSON.parse(stdout).error.code).toBe('NOT_FOUND')
+    expect(stderr).toContain('Error: API Error (NOT_FOUND)')
+  })
+
+  it('Requires the API key', async () => {
+    delete env.TIGERDATA_API_KEY
+
+    expect(await cli('list')).toBe(1)
+    expect(stderr).toBe(
+      'Error: Missing option --api-key (or TIGERDATA_API_KEY)\n'
+    )
+  })
+
+  it('Rejects unknown commands and warns about unused options', async () => {
+    expect(await cli('clone')).toBe(2)
+    expect(stderr).toMatch(/^Unknown command: clone\n\nUsage: fork-service/)
+
+    stderr = ''
+    expect(await cli('list', '--nmae', 'x')).toBe(0)
+    expect(stderr).toBe('Warning: the list command does not use --nmae\n')
+  })
+})
@@ -0,0 +1,215 @@
+/**
+ * Unit tests for the sources of the API key, src/credentials.ts
+ */
+import { jest } from '@jest/globals'
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { simulateAction } from '../__fixtures__/action.js'
+import * as core from '../__fixtures__/core.js'
+import { startGitHubMock, type GitHubMock } from '../__fixtures__/github.js'
+
+jest.unstable_mockModule('@actions/core', () => core)
+
+const { getApiKey } = await import('../src/credentials.js')
+const { run, post } = await import('../src/main.js')
+
+describe('credentials.ts', () => {
+  const env = { ...process.env }
+  let inputs: Record<string, string>
+  let dir: string | undefined
+  let broker: GitHubMock | undefined
+
+  beforeEach(() => {
+    inputs = {}
+    delete process.env.TIGERDATA_API_KEY
+    core.getInput.mockImplementation(
+      (name: string, options?: { required?: boolean }) => {
+        if (!inputs[name] && options?.required) {
+          throw new Error(`Input required and not supplied: ${name}`)
+        }
+        return inputs[name] || ''
+      }
+    )
+  })
+
+  afterEach(async () => {
+    process.env = { ...env }
+    core.getInput.mockReset()
+    core.getIDToken.mockReset()
+    await broker?.close()
+    broker = undefined
+    if (dir) {
+      await rm(dir, { recursive: true, force: true })
+      dir = undefined
+    }
+  })
+
+  async function startBroker(
+    status: number,
+    body?: unknown
+  ): Promise<GitHubMock> {
+    broker = await startGitHubMock(() => ({ status, body }))
+    core.getIDToken.mockResolvedValue('id-token')
+    inputs.oidc_token_url = `${broker.url}/token`
+    return broker
+  }
+
+  it('Reads the API key from api_key', async () => {
+    inputs.api_key = 'public-key:secret-key'
+
+    await expect(getApiKey()).resolves.toBe('public-key:secret-key')
+    expect(core.setSecret).toHaveBeenCalledWith('public-key:secret-key')
+  })
+
+  it('Joins api_public_key and api_secret_key', async () => {
+    inputs.api_public_key = 'public-key'
+    inputs.api_secret_key = 'secret-key'
+
+    await expect(getApiKey()).resolves.toBe('public-key:secret-key')
+    expect(core.setSecret).toHaveBeenCalledWith('secret-key')
+    expect(core.setSecret).toHaveBeenCalledWith('public-key:secret-key')
+
+    delete inputs.api_public_key
+    await expect(getApiKey()).rejects.toThrow(
+      'api_public_key and api_secret_key must be set together'
+    )
+  })
+
+  it('Reads the API key from api_key_file', async () => {
+    dir = await mkdtemp(join(tmpdir(), 'fork-service-'))
+    inputs.api_key_file = join(dir, 'api-key')
+    await writeFile(inputs.api_key_file, 'public-key:secret-key\n')
+
+    await expect(getApiKey()).resolves.toBe('public-key:secret-key')
+    expect(core.setSecret).toHaveBeenCalledWith('public-key:secret-key')
+
+    await writeFile(inputs.api_key_file, '\n')
+    await expect(getApiKey()).rejects.toThrow(
+      `Invalid api_key_file: ${inputs.api_key_file} is empty`
+    )
+
+    inputs.api_key_file = join(dir, 'missing')
+    await expect(getApiKey()).rejects.toThrow(
+      `Invalid api_key_file: ${inputs.api_key_file} could not be read (`
+    )
+  })
+
+  it('Exchanges a GitHub OIDC token for the API key', async () => {
+    const mock = await startBroker(200, {
+      public_key: 'public-key',
+      secret_key: 'secret-key'
+    })
+
+    await expect(getApiKey()).resolves.toBe('public-key:secret-key')
+    expect(core.getIDToken).toHaveBeenCalledWith('tigerdata')
+    expect(mock.requests).toEqual([
+      {
+        method: 'POST',
+        path: '/token',
+        authorization: 'Bearer id-token',
+        body: undefined
+      }
+    ])
+    expect(core.setSecret).toHaveBeenCalledWith('id-token')
+    expect(core.setSecret).toHaveBeenCalledWith('public-key:secret-key')
+
+    inputs.oidc_audience = 'https://api.example.com'
+    await getApiKey()
+    expect(core.getIDToken).toHaveBeenLastCalledWith('https://api.example.com')
+  })
+
+  it('Fails when no OIDC token is issued or the exchange fails', async () => {
+    const mock = await startBroker(200, { public_key: 'public-key' })
+
+    await expect(getApiKey()).rejects.toMatchObject({
+      message: `Unable to exchange the OIDC token at ${mock.url}/token: the response has no public_key and secret_key`,
+      code: 'CREDENTIALS_UNAVAILABLE'
+    })
+
+    core.getIDToken.mockRejectedValue(
+      new Error('Unable to get ACTIONS_ID_TOKEN_REQUEST_URL env variable')
+    )
+    await expect(getApiKey()).rejects.toMatchObject({
+      message:
+        'Unable to get a GitHub OIDC token: Unable to get ACTIONS_ID_TOKEN_REQUEST_URL env variable. Make sure the job has the "id-token: write" permission',
+      code: 'CREDENTIALS_UNAVAILABLE'
+    })
+    expect(mock.requests).toHaveLength(1)
+  })
+
+  it('Reads the API key from TIGERDATA_API_KEY when no input is set', async () => {
+    process.env.TIGERDATA_API_KEY = 'public-key:secret-key'
+
+    await expect(getApiKey()).resolves.toBe('public-key:secret-key')
+    expect(core.setSecret).toHaveBeenCalledWith('public-key:secret-key')
+
+    delete process.env.TIGERDATA_API_KEY
+    await expect(getApiKey()).rejects.toThrow(
+      'Input required and not supplied: api_key'
+    )
+  })
+
+  it('Rejects more than one source', async () => {
+    inputs.api_key = 'public-key:secret-key'
+    inputs.api_secret_key = 'secret-key'
+
+    await expect(getApiKey()).rejects.toMatchObject({
+      message:
+        'Only one of api_key, api_public_key and api_secret_key, api_key_file or oidc_token_url can be set',
+      code: 'INVALID_INPUT'
+    })
+    expect(core.setSecret).not.toHaveBeenCalled()
+  })
+
+  describe('end to end', () => {
+    const action = simulateAction()
+    const { inputs, state } = action
+
+    let broker: GitHubMock | undefined
+
+    afterEach(async () => {
+      core.getIDToken.mockReset()
+      await broker?.close()
+      broker = undefined
+    })
+
+    it('Reads the API key again in post() instead of saving it', async () => {
+      await action.start({ statuses: ['READY'] })
+      delete inputs.api_key
+      inputs.api_public_key = 'public-key'
+      inputs.api_secret_key = 'secret-key'
+      inputs.cleanup = 'true'
+
+      await run()
+      expect(state).not.toHaveProperty('api_key')
+      await post()
+
+      expect(core.warning).not.toHaveBeenCalled()
+      expect(action.simulator.services.get('fork000001')?.status).toBe(
+        'DELETED'
+      )
+      expect(core.setSecret).toHaveBeenCalledWith('secret-key')
+      expect(core.setSecret).toHaveBeenCalledWith('public-key:secret-key')
+    })
+
+    it('Fails when the OIDC token cannot be exchanged', async () => {
+      await action.start()
+      broker = await startGitHubMock(() => ({ status: 403 }))
+      core.getIDToken.mockResolvedValue('id-token')
+      delete inputs.api_key
+      inputs.oidc_token_url = `${broker.url}/token`
+
+      await run()
+
+      expect(core.setFailed).toHaveBeenCalledWith(
+        `Unable to exchange the OIDC token at ${broker.url}/token: 403 Forbidden`
+      )
+      expect(core.setOutput).toHaveBeenCalledWith(
+        'error_code',
+        'CREDENTIALS_UNAVAILABLE'
+      )
+      expect(action.simulator.requests).toHaveLength(0)
+    })
+  })
+})
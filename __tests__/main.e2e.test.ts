@@ -0,0 +1,688 @@
+/**
+ * End-to-end tests of the action, src/main.ts, against the local API
+ * simulator. Unlike main.test.ts, only @actions/core is mocked
+ */
+import { jest } from '@jest/globals'
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { closedPort, simulateAction } from '../__fixtures__/action.js'
+import * as core from '../__fixtures__/core.js'
+import { startGitHubMock, type GitHubMock } from '../__fixtures__/github.js'
+import { startPostgresMock } from '../__fixtures__/postgres.js'
+import type { Service } from '../src/types.js'
+
+jest.unstable_mockModule('@actions/core', () => core)
+
+const { run, post } = await import('../src/main.js')
+
+describe('main.ts', () => {
+  const action = simulateAction()
+  const { inputs, state } = action
+
+  it('Forks a service and waits until it is ready', async () => {
+    await action.start({ statuses: ['QUEUED', 'READY'] })
+    inputs.name = 'e2e-fork'
+
+    await run()
+
+    expect(core.setFailed).not.toHaveBeenCalled()
+    expect(core.setOutput).toHaveBeenCalledWith('service_id', 'fork000001')
+    expect(core.setOutput).toHaveBeenCalledWith('name', 'e2e-fork')
+    expect(core.setOutput).toHaveBeenCalledWith('port', '5432')
+    expect(action.simulator.services.get('fork000001')?.status).toBe('READY')
+    expect(action.simulator.requests[0]).toMatchObject({
+      operation: 'forkService',
+      path: '/projects/project-456/services/service-789/forkService',
+      body: { fork_strategy: 'NOW', name: 'e2e-fork' }
+    })
+  })
+
+  it('Deletes the fork in post() when cleanup is enabled', async () => {
+    await action.start({ statuses: ['READY'] })
+    inputs.cleanup = 'true'
+
+    await run()
+    await post()
+
+    expect(core.warning).not.toHaveBeenCalled()
+    expect(action.simulator.services.get('fork000001')?.status).toBe('DELETED')
+    expect(action.simulator.requests.map((r) => r.operation)).toEqual([
+      'forkService',
+      'getService',
+      'deleteService'
+    ])
+  })
+
+  it('Deletes a fork that never became ready in post()', async () => {
+    await action.start({ statuses: ['QUEUED'] })
+    inputs.cleanup = 'true'
+    inputs.wait_timeout = '0.2'
+    inputs.poll_interval = '0.05'
+
+    await run()
+    await post()
+
+    expect(core.setOutput).toHaveBeenCalledWith('error_code', 'TIMEOUT')
+    expect(state.forked_service_ids).toBe('["fork000001"]')
+    expect(action.simulator.services.get('fork000001')?.status).toBe('DELETED')
+  })
+
+  it('Deletes the fork when the run is cancelled during the probe', async () => {
+    await action.start({
+      statuses: ['READY'],
+      endpoint: { host: '127.0.0.1', port: await closedPort() }
+    })
+    inputs.cleanup = 'true'
+    inputs.probe = 'true'
+    const listeners = process.listenerCount('SIGTERM')
+
+    const running = run()
+    while (
+      !core.info.mock.calls.some(([message]) => message.startsWith('Probing'))
+    ) {
+      await new Promise((resolve) => setTimeout(resolve, 10))
+    }
+    process.emit('SIGINT', 'SIGINT')
+    // The follow-up SIGTERM of the runner is not intercepted
+    expect(process.listenerCount('SIGTERM')).toBe(listeners)
+    await running
+
+    expect(core.setOutput).toHaveBeenCalledWith('error_code', 'CANCELLED')
+    expect(action.simulator.services.get('fork000001')?.status).toBe('DELETED')
+    expect(state.deleted_service_ids).toBe('["fork000001"]')
+  })
+
+  it('Deletes the fork when the run is cancelled', async () => {
+    await action.start({ statuses: ['QUEUED'] })
+    inputs.cleanup = 'true'
+    inputs.poll_interval = '0.05'
+    const listeners = process.listenerCount('SIGTERM')
+
+    const running = run()
+    while (
+      !action.simulator.requests.some((r) => r.operation === 'getService')
+    ) {
+      await new Promise((resolve) => setTimeout(resolve, 10))
+    }
+    process.emit('SIGTERM', 'SIGTERM')
+    await running
+
+    expect(core.setFailed).toHaveBeenCalledWith(
+      'Operation cancelled by SIGTERM'
+    )
+    expect(core.setOutput).toHaveBeenCalledWith('error_code', 'CANCELLED')
+    expect(action.simulator.services.get('fork000001')?.status).toBe('DELETED')
+    expect(process.listenerCount('SIGTERM')).toBe(listeners)
+
+    // post() must not try to delete the fork a second time
+    await post()
+
+    expect(
+      action.simulator.requests.filter((r) => r.operation === 'deleteService')
+    ).toHaveLength(1)
+    expect(core.warning).not.toHaveBeenCalledWith(
+      expect.stringContaining('Failed to cleanup')
+    )
+  })
+
+  describe('count', () => {
+    it('Creates the forks from the same point in time', async () => {
+      await action.start({ statuses: ['QUEUED', 'READY'] })
+      inputs.count = '3'
+      inputs.name = 'shard'
+      inputs.cleanup = 'always'
+
+      await run()
+
+      expect(core.setFailed).not.toHaveBeenCalled()
+      const requests = action.simulator.requests.filter(
+        (r) => r.operation === 'forkService'
+      )
+      expect(requests.map((r) => r.body)).toEqual([
+        expect.objectContaining({ fork_strategy: 'PITR', name: 'shard-1' }),
+        expect.objectContaining({ fork_strategy: 'PITR', name: 'shard-2' }),
+        expect.objectContaining({ fork_strategy: 'PITR', name: 'shard-3' })
+      ])
+      const targetTimes = requests.map(
+        (r) => (r.body as { target_time: string }).target_time
+      )
+      expect(new Set(targetTimes).size).toBe(1)
+      expect(core.info).toHaveBeenCalledWith(
+        `fork_strategy now would fork each of the 3 forks at a slightly different time, so they are forked with the timestamp strategy as of ${targetTimes[0]} instead. This can take longer than forking now.`
+      )
+      expect(core.setOutput).toHaveBeenCalledWith(
+        'resolved_target_time',
+        targetTimes[0]
+      )
+
+      const forks = JSON.parse(
+        core.setOutput.mock.calls.find(([name]) => name === 'forks')?.[1]
+      )
+      expect(forks).toEqual(
+        ['fork000001', 'fork000002', 'fork000003'].map((id, index) => ({
+          alias: 'service-789',
+          service_id: id,
+          name: `shard-${index + 1}`,
+          host: `${id}.project-456.tsdb.cloud.timescale.com`,
+          port: 5432,
+          password: `password-${id}`,
+          connection_string: `postgresql://tsdbadmin:password-${id}@${id}.project-456.tsdb.cloud.timescale.com:5432/tsdb?sslmode=require`,
+          reused: false
+        }))
+      )
+      expect(core.setOutput).toHaveBeenCalledWith('service_id', 'fork000001')
+
+      await post()
+
+      for (const id of ['fork000001', 'fork000002', 'fork000003']) {
+        expect(action.simulator.services.get(id)?.status).toBe('DELETED')
+      }
+    })
+
+    it('Checks the strategy that is actually used against the policy', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'fork-service-'))
+      try {
+        await writeFile(join(dir, 'policy.yml'), 'strategies: [now]\n')
+        await action.start()
+        inputs.count = '2'
+        inputs.policy_file = join(dir, 'policy.yml')
+
+        await run()
+
+        expect(core.setFailed).toHaveBeenCalledWith(
+          `The fork request violates the policy in ${join(dir, 'policy.yml')}:\n- fork_strategy timestamp is not allowed, allowed strategies are: now`
+        )
+        expect(action.simulator.requests).toHaveLength(0)
+      } finally {
+        await rm(dir, { recursive: true, force: true })
+      }
+    })
+
+    it('Stops waiting and cleans up every fork when one fails', async () => {
+      await action.start({
+        statuses: ['QUEUED'],
+        faults: [
+          {
+            operation: 'getService',
+            status: 404,
+            body: { code: 'NOT_FOUND', message: 'Service not found' }
+          }
+        ]
+      })
+      inputs.count = '2'
+      inputs.cleanup = 'always'
+      inputs.poll_interval = '0.05'
+
+      await run()
+      await post()
+
+      expect(core.setOutput).toHaveBeenCalledWith('error_code', 'NOT_FOUND')
+      expect(state.forked_service_ids).toBe('["fork000001","fork000002"]')
+      expect(action.simulator.services.get('fork000001')?.status).toBe(
+        'DELETED'
+      )
+      expect(action.simulator.services.get('fork000002')?.status).toBe(
+        'DELETED'
+      )
+    })
+  })
+
+  describe('several services', () => {
+    it('Forks every service at the same target time', async () => {
+      await action.start({ statuses: ['QUEUED', 'READY'] })
+      inputs.service_id = 'oltp=service-789\nanalytics=service-790'
+      inputs.fork_strategy = 'timestamp'
+      inputs.target_time = '2025-10-01T15:29:00Z'
+      inputs.name = 'pr-42'
+
+      await run()
+
+      expect(core.setFailed).not.toHaveBeenCalled()
+      expect(
+        action.simulator.requests
+          .filter((r) => r.operation === 'forkService')
+          .map((r) => [r.path, r.body])
+      ).toEqual([
+        [
+          '/projects/project-456/services/service-789/forkService',
+          {
+            fork_strategy: 'PITR',
+            target_time: '2025-10-01T15:29:00Z',
+            name: 'pr-42-oltp'
+          }
+        ],
+        [
+          '/projects/project-456/services/service-790/forkService',
+          {
+            fork_strategy: 'PITR',
+            target_time: '2025-10-01T15:29:00Z',
+            name: 'pr-42-analytics'
+          }
+        ]
+      ])
+      const services = JSON.parse(
+        core.setOutput.mock.calls.find(([name]) => name === 'services')?.[1]
+      )
+      expect(Object.keys(services)).toEqual(['oltp', 'analytics'])
+      // The concurrent waits share one log group
+      expect(core.startGroup).toHaveBeenCalledTimes(1)
+      expect(core.startGroup).toHaveBeenCalledWith(
+        'Waiting for 2 forked services to be ready (timeout: 1800s)'
+      )
+      expect(core.endGroup).toHaveBeenCalledTimes(1)
+      expect(services.analytics).toMatchObject({
+        service_id: 'fork000002',
+        name: 'pr-42-analytics',
+        host: 'fork000002.project-456.tsdb.cloud.timescale.com',
+        port: 5432,
+        password: 'password-fork000002'
+      })
+    })
+
+    it('Deletes every fork when one of them fails', async () => {
+      await action.start({
+        statuses: ['QUEUED'],
+        faults: [
+          {
+            operation: 'getService',
+            status: 404,
+            body: { code: 'NOT_FOUND', message: 'Service not found' }
+          }
+        ]
+      })
+      inputs.service_id = 'oltp=service-789, analytics=service-790'
+      inputs.poll_interval = '0.05'
+
+      await run()
+
+      expect(core.setOutput).toHaveBeenCalledWith('error_code', 'NOT_FOUND')
+      expect(action.simulator.services.get('fork000001')?.status).toBe(
+        'DELETED'
+      )
+      expect(action.simulator.services.get('fork000002')?.status).toBe(
+        'DELETED'
+      )
+      expect(state.deleted_service_ids).toBe('["fork000001","fork000002"]')
+    })
+
+    it('Deletes every fork when the migrations fail for one of them', async () => {
+      const postgres = await startPostgresMock({
+        password: 'password-fork000001',
+        acceptSsl: true,
+        onQuery: (sql) =>
+          sql.startsWith('CREATE TABLE')
+            ? {
+                error: { code: '42P07', message: 'relation "a" already exists' }
+              }
+            : undefined
+      })
+      const dir = await mkdtemp(join(tmpdir(), 'fork-service-'))
+      try {
+        await writeFile(join(dir, 'schema.sql'), 'CREATE TABLE a (id int);')
+        await action.start({
+          statuses: ['READY'],
+          endpoint: { host: '127.0.0.1', port: postgres.port }
+        })
+        inputs.service_id = 'oltp=service-789, analytics=service-790'
+        inputs.sql_files = join(dir, 'schema.sql')
+
+        await run()
+
+        expect(core.setOutput).toHaveBeenCalledWith(
+          'error_code',
+          'MIGRATION_FAILED'
+        )
+        expect(action.simulator.services.get('fork000001')?.status).toBe(
+          'DELETED'
+        )
+        expect(action.simulator.services.get('fork000002')?.status).toBe(
+          'DELETED'
+        )
+        expect(state.deleted_service_ids).toBe('["fork000001","fork000002"]')
+      } finally {
+        await postgres.close()
+        await rm(dir, { recursive: true, force: true })
+      }
+    })
+
+    it('Rejects an alias used twice', async () => {
+      await action.start()
+      inputs.service_id = 'db=service-789\ndb=service-790'
+
+      await run()
+
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'Invalid service_id: the alias db is used more than once'
+      )
+      expect(action.simulator.requests).toHaveLength(0)
+    })
+  })
+
+  describe('concurrency limit', () => {
+    const env = { ...process.env }
+    const fork = (
+      service_id: string,
+      name: string,
+      created: string
+    ): Service => ({
+      service_id,
+      project_id: 'project-456',
+      name,
+      region_code: 'us-east-1',
+      created,
+      status: 'READY',
+      forked_from: { project_id: 'project-456', service_id: 'service-789' }
+    })
+
+    async function startLimited(): Promise<void> {
+      await action.start({
+        statuses: ['READY'],
+        existingServices: [
+          fork('ci-1', 'ci-1', '2025-10-01T10:00:00Z'),
+          fork('ci-2', 'ci-2', '2025-10-01T11:00:00Z'),
+          fork('other', 'preview', '2025-10-01T09:00:00Z')
+        ]
+      })
+      process.env.GITHUB_RUN_ID = '3'
+      inputs.name = 'ci-{run_id}'
+      inputs.max_concurrent_forks = '2'
+      inputs.queue_interval = '0.01'
+    }
+
+    afterEach(() => {
+      process.env = { ...env }
+    })
+
+    it('Fails when no slot is free before queue_timeout', async () => {
+      await startLimited()
+      inputs.queue_timeout = '0.05'
+
+      await run()
+
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'All 2 fork slots are still taken after 0s: ci-1, ci-2'
+      )
+      expect(core.setOutput).toHaveBeenCalledWith(
+        'error_code',
+        'CONCURRENCY_LIMIT'
+      )
+      expect(action.simulator.requests.map((r) => r.operation)).not.toContain(
+        'forkService'
+      )
+    })
+
+    it('Evicts the oldest fork with evict_oldest', async () => {
+      await startLimited()
+      inputs.evict_oldest = 'true'
+
+      await run()
+
+      expect(core.setFailed).not.toHaveBeenCalled()
+      expect(action.simulator.requests.map((r) => r.operation)).toEqual([
+        'listServices',
+        'deleteService',
+        'listServices',
+        'forkService',
+        'getService'
+      ])
+      expect(action.simulator.requests[1].path).toBe(
+        '/projects/project-456/services/ci-1'
+      )
+      expect(action.simulator.services.get('other')?.status).toBe('READY')
+    })
+
+    it('Requires a name', async () => {
+      await startLimited()
+      delete inputs.name
+      inputs.evict_oldest = 'true'
+
+      await run()
+
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'name input is required when max_concurrent_forks is set, to count and evict only the forks that follow its naming convention'
+      )
+      expect(action.simulator.requests).toHaveLength(0)
+      expect(action.simulator.services.get('other')?.status).toBe('READY')
+    })
+  })
+
+  describe('target times', () => {
+    const env = { ...process.env }
+    let github: GitHubMock | undefined
+    let dir: string | undefined
+
+    afterEach(async () => {
+      process.env = { ...env }
+      await github?.close()
+      github = undefined
+      if (dir) {
+        await rm(dir, { recursive: true, force: true })
+        dir = undefined
+      }
+    })
+
+    it('Resolves a time relative to now', async () => {
+      await action.start({ statuses: ['READY'] })
+      inputs.fork_strategy = 'timestamp'
+      inputs.target_time = '-2h'
+      const before = Date.now()
+
+      await run()
+
+      expect(core.setFailed).not.toHaveBeenCalled()
+      const resolved = core.setOutput.mock.calls.find(
+        ([name]) => name === 'resolved_target_time'
+      )?.[1] as string
+      const age = before - Date.parse(resolved)
+      expect(age).toBeGreaterThan(2 * 60 * 60 * 1000 - 1000)
+      expect(age).toBeLessThanOrEqual(2 * 60 * 60 * 1000)
+      expect(action.simulator.requests[0].body).toEqual({
+        fork_strategy: 'PITR',
+        target_time: resolved
+      })
+      expect(core.info).toHaveBeenCalledWith(
+        `Using target time: ${resolved} (-2h)`
+      )
+    })
+
+    it('Resolves the time of the base branch of the pull request', async () => {
+      await action.start({ statuses: ['READY'] })
+      github = await startGitHubMock(() => ({
+        status: 200,
+        body: { commit: { committer: { date: '2025-10-01T17:29:00+02:00' } } }
+      }))
+      dir = await mkdtemp(join(tmpdir(), 'fork-service-'))
+      await writeFile(
+        join(dir, 'event.json'),
+        JSON.stringify({ pull_request: { base: { sha: 'base-sha' } } })
+      )
+      process.env.GITHUB_API_URL = github.url
+      process.env.GITHUB_REPOSITORY = 'owner/repo'
+      process.env.GITHUB_EVENT_PATH = join(dir, 'event.json')
+      inputs.github_token = 'github-token'
+      inputs.fork_strategy = 'timestamp'
+      inputs.target_time = 'pr-base'
+
+      await run()
+
+      expect(core.setFailed).not.toHaveBeenCalled()
+      expect(github.requests[0].path).toBe('/repos/owner/repo/commits/base-sha')
+      expect(core.setOutput).toHaveBeenCalledWith(
+        'resolved_target_time',
+        '2025-10-01T15:29:00.000Z'
+      )
+      expect(action.simulator.requests[0].body).toMatchObject({
+        target_time: '2025-10-01T15:29:00.000Z'
+      })
+    })
+  })
+
+  it('Prints the fork requests without creating anything in a dry run', async () => {
+    await action.start()
+    inputs.service_id = 'db=service-789, cache=service-012'
+    inputs.name = 'pr-42'
+    inputs.cpu_millis = 'shared'
+    inputs.memory_gbs = 'shared'
+    inputs.dry_run = 'true'
+    inputs.cleanup = 'true'
+
+    await run()
+    await post()
+
+    expect(core.setFailed).not.toHaveBeenCalled()
+    expect(core.warning).not.toHaveBeenCalled()
+    expect(action.simulator.requests).toEqual([])
+    expect(core.info).toHaveBeenCalledWith(
+      'POST /projects/project-456/services/service-012/forkService\n' +
+        JSON.stringify(
+          {
+            fork_strategy: 'NOW',
+            name: 'pr-42-cache',
+            cpu_millis: 'shared',
+            memory_gbs: 'shared'
+          },
+          null,
+          2
+        )
+    )
+    const requests = JSON.parse(
+      core.setOutput.mock.calls.find(([name]) => name === 'fork_requests')?.[1]
+    )
+    expect(requests.map((r: { service_id: string }) => r.service_id)).toEqual([
+      'service-789',
+      'service-012'
+    ])
+    expect(core.setOutput).not.toHaveBeenCalledWith(
+      'service_id',
+      expect.anything()
+    )
+  })
+
+  describe('cleanup modes', () => {
+    const env = { ...process.env }
+    let github: GitHubMock | undefined
+
+    async function startGitHub(conclusion: string): Promise<void> {
+      github = await startGitHubMock(() => ({
+        status: 200,
+        body: {
+          jobs: [
+            {
+              name: 'test',
+              status: 'in_progress',
+              runner_name: 'runner-1',
+              steps: [
+                { name: 'Fork Database', conclusion: 'success' },
+                { name: 'Run tests', conclusion }
+              ]
+            }
+          ]
+        }
+      }))
+      process.env.GITHUB_API_URL = github.url
+      process.env.GITHUB_REPOSITORY = 'owner/repo'
+      process.env.GITHUB_RUN_ID = '42'
+      process.env.GITHUB_RUN_ATTEMPT = '1'
+      process.env.RUNNER_NAME = 'runner-1'
+      inputs.github_token = 'github-token'
+    }
+
+    afterEach(async () => {
+      process.env = { ...env }
+      await github?.close()
+      github = undefined
+    })
+
+    it('Keeps the fork with on-success when a later step failed', async () => {
+      await action.start({ statuses: ['READY'] })
+      await startGitHub('failure')
+      inputs.cleanup = 'on-success'
+
+      await run()
+      await post()
+
+      expect(github?.requests[0].path).toBe(
+        '/repos/owner/repo/actions/runs/42/attempts/1/jobs?per_page=100'
+      )
+      expect(core.info).toHaveBeenCalledWith(
+        'Cleanup mode is on-success and the job outcome is failure ' +
+          '(step "Run tests" of job "test" failed). ' +
+          'Keeping forked service fork000001.'
+      )
+      expect(action.simulator.services.get('fork000001')?.status).toBe('READY')
+    })
+
+    it('Deletes the fork with on-success when the job succeeded', async () => {
+      await action.start({ statuses: ['READY'] })
+      await startGitHub('success')
+      inputs.cleanup = 'on-success'
+
+      await run()
+      await post()
+
+      expect(action.simulator.services.get('fork000001')?.status).toBe(
+        'DELETED'
+      )
+    })
+
+    it('Deletes the fork with on-failure when the fork step failed', async () => {
+      await action.start({ statuses: ['QUEUED', 'UNSTABLE'] })
+      inputs.cleanup = 'on-failure'
+
+      await run()
+      await post()
+
+      expect(core.info).toHaveBeenCalledWith(
+        'Cleanup mode is on-failure and the job outcome is failure ' +
+          '(the fork step failed).'
+      )
+      expect(action.simulator.services.get('fork000001')?.status).toBe(
+        'DELETED'
+      )
+    })
+
+    it('Keeps the fork when the job outcome is unknown', async () => {
+      await action.start({ statuses: ['READY'] })
+      inputs.cleanup = 'on-success'
+
+      await run()
+      await post()
+
+      expect(core.warning).toHaveBeenCalledWith(
+        'Cleanup mode is on-success but the job outcome is unknown: ' +
+          'no github_token is available. Keeping forked service fork000001.'
+      )
+      expect(action.simulator.services.get('fork000001')?.status).toBe('READY')
+    })
+
+    it('Pauses the fork instead of deleting it', async () => {
+      await action.start({ statuses: ['READY'] })
+      inputs.cleanup = 'always'
+      inputs.cleanup_action = 'pause'
+
+      await run()
+      await post()
+
+      expect(action.simulator.services.get('fork000001')).toMatchObject({
+        status: 'PAUSED',
+        paused: true
+      })
+      expect(core.info).toHaveBeenCalledWith(
+        'Successfully paused forked service: fork000001'
+      )
+    })
+
+    it('Fails on an invalid cleanup mode', async () => {
+      await action.start()
+      inputs.cleanup = 'sometimes'
+
+      await run()
+
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'Invalid cleanup mode: sometimes. Must be one of: always, on-success, on-failure, never'
+      )
+      expect(action.simulator.requests).toHaveLength(0)
+    })
+  })
+})
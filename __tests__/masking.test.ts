@@ -0,0 +1,293 @@
+/**
+ * Unit tests for masking sensitive data, src/masking.ts
+ */
+import { jest } from '@jest/globals'
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { simulateAction } from '../__fixtures__/action.js'
+import * as core from '../__fixtures__/core.js'
+import {
+  startPostgresMock,
+  type PostgresMock,
+  type PostgresQueryResult
+} from '../__fixtures__/postgres.js'
+import type { ConnectionInfo } from '../src/connection.js'
+
+jest.unstable_mockModule('@actions/core', () => core)
+
+const { applyMaskingRules, loadMaskingRules } = await import(
+  '../src/masking.js'
+)
+const { MaskingError } = await import('../src/errors.js')
+const { run } = await import('../src/main.js')
+
+/**
+ * Columns of the schema the mock database reports
+ */
+const COLUMNS = [
+  ['public', 'users', 'email', 'character varying'],
+  ['public', 'users', 'name', 'text'],
+  ['public', 'users', 'age', 'integer'],
+  ['audit', 'events', 'payload', 'jsonb']
+].map(([table_schema, table_name, column_name, data_type]) => ({
+  table_schema,
+  table_name,
+  column_name,
+  data_type
+}))
+
+/**
+ * Answers the queries of the masking rules like a database with COLUMNS
+ *
+ * @param sql - The query
+ * @returns The result
+ */
+function database(sql: string): PostgresQueryResult | void {
+  if (sql.includes('information_schema.columns')) {
+    return { rows: COLUMNS }
+  }
+  if (sql.startsWith('SELECT count(*)')) {
+    return { rows: [{ count: '7' }] }
+  }
+  if (sql.startsWith('UPDATE')) {
+    return { command: 'UPDATE 3' }
+  }
+}
+
+describe('masking.ts', () => {
+  let dir: string
+  let postgres: PostgresMock | undefined
+
+  async function rulesFile(content: string): Promise<string> {
+    const path = join(dir, 'masking.yml')
+    await writeFile(path, content)
+    return path
+  }
+
+  function connectionTo(port: number): ConnectionInfo {
+    return {
+      host: '127.0.0.1',
+      port,
+      user: 'tsdbadmin',
+      password: 'secret',
+      database: 'tsdb',
+      sslmode: 'disable'
+    }
+  }
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'fork-service-'))
+  })
+
+  afterEach(async () => {
+    await postgres?.close()
+    postgres = undefined
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  describe('loadMaskingRules', () => {
+    it('Reads rules from YAML', async () => {
+      const path = await rulesFile(
+        [
+          'rules:',
+          '  - table: users',
+          '    column: email',
+          '    strategy: fake_email',
+          '  - table: audit.events',
+          '    strategy: truncate'
+        ].join('\n')
+      )
+
+      await expect(loadMaskingRules(path)).resolves.toEqual([
+        { table: 'users', column: 'email', strategy: 'fake_email' },
+        { table: 'audit.events', column: undefined, strategy: 'truncate' }
+      ])
+    })
+
+    it.each([
+      ['rules: []', 'must contain a non-empty list of rules'],
+      [
+        'rules:\n  - table: users\n    column: email\n    strategy: scramble',
+        'rule 1 of .* has an invalid strategy: scramble'
+      ],
+      [
+        'rules:\n  - table: users\n    strategy: hash',
+        'rule 1 of .* has no column'
+      ],
+      [
+        'rules:\n  - table: users\n    column: email\n    strategy: truncate',
+        'truncates users and must not have a column'
+      ]
+    ])('Rejects invalid rules: %s', async (content, message) => {
+      const path = await rulesFile(content)
+
+      await expect(loadMaskingRules(path)).rejects.toThrow(
+        new RegExp(`^Invalid masking_rules: .*${message}`)
+      )
+    })
+  })
+
+  describe('applyMaskingRules', () => {
+    it('Applies every rule in one transaction and counts the rows', async () => {
+      postgres = await startPostgresMock({
+        password: 'secret',
+        onQuery: database
+      })
+
+      const results = await applyMaskingRules(connectionTo(postgres.port), [
+        { table: 'users', column: 'email', strategy: 'fake_email' },
+        { table: 'public.users', column: 'name', strategy: 'hash' },
+        { table: 'users', column: 'age', strategy: 'null' },
+        { table: 'audit.events', strategy: 'truncate' }
+      ])
+
+      expect(results.map((result) => result.rows)).toEqual([3, 3, 3, 7])
+      expect(postgres.queries.slice(1)).toEqual([
+        'BEGIN',
+        `UPDATE "public"."users" SET "email" = 'user-' || left(md5("email"::text), 16) || '@example.invalid' WHERE "email" IS NOT NULL`,
+        'UPDATE "public"."users" SET "name" = md5("name"::text) WHERE "name" IS NOT NULL',
+        'UPDATE "public"."users" SET "age" = NULL WHERE "age" IS NOT NULL',
+        'SELECT count(*) AS count FROM "audit"."events"',
+        'TRUNCATE TABLE "audit"."events"',
+        'COMMIT'
+      ])
+      expect(core.info).toHaveBeenCalledWith(
+        'Masked users.email (fake_email): 3 row(s)'
+      )
+    })
+
+    it('Retries the connection while the fork is starting up', async () => {
+      postgres = await startPostgresMock({
+        password: 'secret',
+        startupErrors: 2,
+        onQuery: database
+      })
+
+      const results = await applyMaskingRules(
+        connectionTo(postgres.port),
+        [{ table: 'users', column: 'email', strategy: 'null' }],
+        { intervalMs: 10 }
+      )
+
+      expect(results.map((result) => result.rows)).toEqual([3])
+      expect(core.info).toHaveBeenCalledWith(
+        expect.stringMatching(/accepted a connection after 3 attempt\(s\)/)
+      )
+    })
+
+    it('Fails closed when the fork never accepts a connection', async () => {
+      postgres = await startPostgresMock({ password: 'secret' })
+      const { port } = postgres
+      await postgres.close()
+      postgres = undefined
+
+      const error = await applyMaskingRules(
+        connectionTo(port),
+        [{ table: 'users', column: 'email', strategy: 'null' }],
+        { timeoutMs: 50, intervalMs: 10 }
+      ).catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(MaskingError)
+      expect((error as Error).message).toMatch(
+        new RegExp(
+          `^Could not connect to 127\\.0\\.0\\.1:${port} to mask data: Service at 127\\.0\\.0\\.1:${port} is not reachable after \\d+ attempt\\(s\\)`
+        )
+      )
+    })
+
+    it('Fails closed when a rule refers to a missing column', async () => {
+      postgres = await startPostgresMock({
+        password: 'secret',
+        onQuery: database
+      })
+
+      const error = await applyMaskingRules(connectionTo(postgres.port), [
+        { table: 'users', column: 'email', strategy: 'fake_email' },
+        { table: 'users', column: 'phone', strategy: 'null' },
+        { table: 'orders', column: 'address', strategy: 'null' },
+        { table: 'users', column: 'age', strategy: 'hash' }
+      ]).catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(MaskingError)
+      expect((error as Error).message).toBe(
+        'Masking rules do not match the schema of the fork, nothing was masked:\n' +
+          '  users.phone (null): column phone does not exist in users\n' +
+          '  orders.address (null): table orders does not exist\n' +
+          '  users.age (hash): hash needs a text column, but age is integer'
+      )
+      expect(postgres.queries).toHaveLength(1)
+    })
+
+    it('Rolls back every rule when one fails', async () => {
+      postgres = await startPostgresMock({
+        password: 'secret',
+        onQuery: (sql) =>
+          sql.includes('"name"')
+            ? {
+                error: {
+                  code: '22001',
+                  message: 'value too long for type character varying(8)'
+                }
+              }
+            : database(sql)
+      })
+
+      await expect(
+        applyMaskingRules(connectionTo(postgres.port), [
+          { table: 'users', column: 'email', strategy: 'null' },
+          { table: 'users', column: 'name', strategy: 'hash' }
+        ])
+      ).rejects.toThrow(
+        'Failed to apply masking rule users.name (hash): value too long for type character varying(8). No data was masked.'
+      )
+      expect(postgres.queries.at(-1)).toBe('ROLLBACK')
+    })
+  })
+
+  describe('end to end', () => {
+    const action = simulateAction()
+    const { inputs, state } = action
+
+    it('Withholds the outputs when the fork cannot be masked', async () => {
+      const postgres = await startPostgresMock({
+        password: 'password-fork000001',
+        acceptSsl: true,
+        onQuery: (sql) =>
+          sql.includes('information_schema') ? { rows: [] } : undefined
+      })
+      const dir = await mkdtemp(join(tmpdir(), 'fork-service-'))
+      try {
+        await writeFile(
+          join(dir, 'masking.yml'),
+          'rules:\n  - table: users\n    column: email\n    strategy: fake_email\n'
+        )
+        await action.start({
+          statuses: ['READY'],
+          endpoint: { host: '127.0.0.1', port: postgres.port }
+        })
+        inputs.masking_rules = join(dir, 'masking.yml')
+        inputs.cleanup = 'always'
+
+        await run()
+
+        expect(core.setOutput).toHaveBeenCalledWith(
+          'error_code',
+          'MASKING_FAILED'
+        )
+        expect(core.setOutput).not.toHaveBeenCalledWith(
+          'initial_password',
+          expect.anything()
+        )
+        expect(core.setOutput).not.toHaveBeenCalledWith(
+          'connection_string',
+          expect.anything()
+        )
+        expect(state.forked_service_ids).toBe('["fork000001"]')
+      } finally {
+        await postgres.close()
+        await rm(dir, { recursive: true, force: true })
+      }
+    })
+  })
+})
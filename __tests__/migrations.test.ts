@@ -0,0 +1,205 @@
+/**
+ * Unit tests for applying SQL files, src/migrations.ts
+ */
+import { jest } from '@jest/globals'
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { simulateAction } from '../__fixtures__/action.js'
+import * as core from '../__fixtures__/core.js'
+import {
+  startPostgresMock,
+  type PostgresMock
+} from '../__fixtures__/postgres.js'
+import type { ConnectionInfo } from '../src/connection.js'
+
+jest.unstable_mockModule('@actions/core', () => core)
+
+const { applySqlFiles, resolveSqlFiles } = await import('../src/migrations.js')
+const { InputError, MigrationError } = await import('../src/errors.js')
+const { run } = await import('../src/main.js')
+
+describe('migrations.ts', () => {
+  let dir: string
+  let postgres: PostgresMock | undefined
+
+  function connectionTo(port: number): ConnectionInfo {
+    return {
+      host: '127.0.0.1',
+      port,
+      user: 'tsdbadmin',
+      password: 'secret',
+      database: 'tsdb',
+      sslmode: 'disable'
+    }
+  }
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'fork-service-'))
+  })
+
+  afterEach(async () => {
+    await postgres?.close()
+    postgres = undefined
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  describe('resolveSqlFiles', () => {
+    it('Sorts migrations by name, then appends the listed files', async () => {
+      await mkdir(join(dir, 'migrations'))
+      for (const name of ['10_c.sql', '2_b.sql', '1_a.sql', 'README.md']) {
+        await writeFile(join(dir, 'migrations', name), '')
+      }
+      await writeFile(join(dir, 'seed.sql'), '')
+
+      const files = await resolveSqlFiles(join(dir, 'migrations'), [
+        join(dir, 'seed.sql')
+      ])
+
+      expect(files).toEqual([
+        join(dir, 'migrations', '1_a.sql'),
+        join(dir, 'migrations', '2_b.sql'),
+        join(dir, 'migrations', '10_c.sql'),
+        join(dir, 'seed.sql')
+      ])
+    })
+
+    it('Rejects a missing directory or file', async () => {
+      await expect(resolveSqlFiles(join(dir, 'missing'), [])).rejects.toThrow(
+        InputError
+      )
+      await expect(
+        resolveSqlFiles('', [join(dir, 'missing.sql')])
+      ).rejects.toThrow(`Invalid sql_files: ${join(dir, 'missing.sql')}`)
+    })
+  })
+
+  describe('applySqlFiles', () => {
+    it('Applies each file in its own transaction', async () => {
+      postgres = await startPostgresMock({ password: 'secret' })
+      await writeFile(join(dir, '1.sql'), 'CREATE TABLE a (id int);')
+      await writeFile(join(dir, '2.sql'), 'INSERT INTO a VALUES (1);')
+
+      const applied = await applySqlFiles(connectionTo(postgres.port), [
+        join(dir, '1.sql'),
+        join(dir, '2.sql')
+      ])
+
+      expect(applied).toEqual([
+        { file: join(dir, '1.sql'), duration_ms: expect.any(Number) },
+        { file: join(dir, '2.sql'), duration_ms: expect.any(Number) }
+      ])
+      expect(postgres.queries).toEqual([
+        'BEGIN',
+        'CREATE TABLE a (id int);',
+        'COMMIT',
+        'BEGIN',
+        'INSERT INTO a VALUES (1);',
+        'COMMIT'
+      ])
+    })
+
+    it('Rolls back a failing file and reports the statement location', async () => {
+      postgres = await startPostgresMock({
+        password: 'secret',
+        onQuery: (sql) =>
+          sql.includes('CREATE TABEL')
+            ? {
+                error: {
+                  code: '42601',
+                  message: 'syntax error at or near "TABEL"',
+                  position: sql.indexOf('TABEL') + 1
+                }
+              }
+            : undefined
+      })
+      await writeFile(join(dir, '1.sql'), 'CREATE TABLE a (id int);')
+      await writeFile(
+        join(dir, '2.sql'),
+        'ALTER TABLE a ADD b int;\n\n  CREATE TABEL c (id int);\n'
+      )
+      await writeFile(join(dir, '3.sql'), 'SELECT 1;')
+
+      const error = await applySqlFiles(connectionTo(postgres.port), [
+        join(dir, '1.sql'),
+        join(dir, '2.sql'),
+        join(dir, '3.sql')
+      ]).catch((e: unknown) => e)
+
+      expect(error).toBeInstanceOf(MigrationError)
+      expect(error).toMatchObject({
+        code: 'MIGRATION_FAILED',
+        file: join(dir, '2.sql'),
+        applied: [{ file: join(dir, '1.sql') }]
+      })
+      expect((error as Error).message).toBe(
+        `Failed to apply ${join(dir, '2.sql')} at line 3, column 10: CREATE TABEL c (id int);\n` +
+          'syntax error at or near "TABEL" (SQLSTATE 42601). ' +
+          'The changes of this file were rolled back.'
+      )
+      expect(postgres.queries.slice(3)).toEqual([
+        'BEGIN',
+        'ALTER TABLE a ADD b int;\n\n  CREATE TABEL c (id int);\n',
+        'ROLLBACK'
+      ])
+    })
+
+    it('Fails when the service does not accept the connection', async () => {
+      postgres = await startPostgresMock({ password: 'other' })
+      await writeFile(join(dir, '1.sql'), 'SELECT 1;')
+
+      await expect(
+        applySqlFiles(connectionTo(postgres.port), [join(dir, '1.sql')])
+      ).rejects.toThrow(
+        /^Could not connect to 127\.0\.0\.1:\d+ to apply SQL files: password authentication failed/
+      )
+    })
+  })
+
+  describe('end to end', () => {
+    const action = simulateAction()
+    const { inputs } = action
+
+    it('Applies migrations to the fork over TLS', async () => {
+      const postgres = await startPostgresMock({
+        password: 'password-fork000001',
+        acceptSsl: true
+      })
+      const dir = await mkdtemp(join(tmpdir(), 'fork-service-'))
+      try {
+        await mkdir(join(dir, 'migrations'))
+        await writeFile(
+          join(dir, 'migrations', '001_schema.sql'),
+          'CREATE TABLE a (id int);'
+        )
+        await writeFile(join(dir, 'seed.sql'), 'INSERT INTO a VALUES (1);')
+        await action.start({
+          statuses: ['READY'],
+          endpoint: { host: '127.0.0.1', port: postgres.port }
+        })
+        inputs.probe = 'true'
+        inputs.migrations_dir = join(dir, 'migrations')
+        inputs.sql_files = join(dir, 'seed.sql')
+
+        await run()
+
+        expect(core.setFailed).not.toHaveBeenCalled()
+        expect(postgres.authenticated).toEqual(['tsdbadmin', 'tsdbadmin'])
+        expect(postgres.queries).toContain('INSERT INTO a VALUES (1);')
+        const output = core.setOutput.mock.calls.find(
+          ([name]) => name === 'migrations_applied'
+        )
+        expect(JSON.parse(String(output?.[1]))).toEqual([
+          {
+            file: join(dir, 'migrations', '001_schema.sql'),
+            duration_ms: expect.any(Number)
+          },
+          { file: join(dir, 'seed.sql'), duration_ms: expect.any(Number) }
+        ])
+      } finally {
+        await postgres.close()
+        await rm(dir, { recursive: true, force: true })
+      }
+    })
+  })
+})
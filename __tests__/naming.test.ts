@@ -0,0 +1,151 @@
+/**
+ * Unit tests for naming forks, src/naming.ts
+ */
+import { jest } from '@jest/globals'
+import { simulateAction } from '../__fixtures__/action.js'
+import * as core from '../__fixtures__/core.js'
+import type { Service } from '../src/types.js'
+
+jest.unstable_mockModule('@actions/core', () => core)
+
+const {
+  addRandomSuffix,
+  avoidNameCollision,
+  resolveNameTemplate,
+  templateToPattern
+} = await import('../src/naming.js')
+const { run } = await import('../src/main.js')
+
+describe('naming.ts', () => {
+  const context = {
+    repo: 'shop',
+    pr: '42',
+    run_id: '123456',
+    sha7: '0123456',
+    branch: 'feature/new checkout!'
+  }
+
+  const service = (name: string, status: Service['status']): Service => ({
+    service_id: `id-${name}`,
+    project_id: 'project-456',
+    name,
+    region_code: 'us-east-1',
+    status
+  })
+
+  it('Resolves placeholders from the workflow context', () => {
+    expect(resolveNameTemplate('{repo}-{pr}-{run_id}-{sha7}', context)).toBe(
+      'shop-42-123456-0123456'
+    )
+    expect(resolveNameTemplate('fork-{branch}', context)).toBe(
+      'fork-feature-new checkout'
+    )
+    expect(resolveNameTemplate('plain name', context)).toBe('plain name')
+  })
+
+  it('Truncates names that placeholders make too long', () => {
+    const name = resolveNameTemplate('{branch}', {
+      branch: `${'a'.repeat(126)}/b/c`
+    })
+
+    expect(name).toBe('a'.repeat(126) + '-b')
+  })
+
+  it('Rejects unknown and unavailable placeholders', () => {
+    expect(() => resolveNameTemplate('{repository}', context)).toThrow(
+      /^Invalid name: unknown placeholder \{repository\}\. Must be one of: \{owner\}, \{repo\}/
+    )
+    expect(() => resolveNameTemplate('{job}', context)).toThrow(
+      'Invalid name: {job} is the ID of the job, which is not available in this workflow'
+    )
+  })
+
+  it('Appends a random suffix within the length limit', () => {
+    expect(addRandomSuffix('pr-42')).toMatch(/^pr-42-[0-9a-f]{6}$/)
+    expect(addRandomSuffix('a'.repeat(128))).toMatch(/^a{121}-[0-9a-f]{6}$/)
+  })
+
+  it('Matches the names a template produces, with a suffix', () => {
+    const pattern = templateToPattern('{repo}-pr.{pr}')
+
+    expect(pattern.test('shop-pr.42')).toBe(true)
+    expect(pattern.test('shop-pr.42-2')).toBe(true)
+    expect(pattern.test('shop-pr.42-3f9a1c')).toBe(true)
+    expect(pattern.test('shop-prx42')).toBe(false)
+    expect(pattern.test('shop-pr.')).toBe(false)
+    expect(templateToPattern('preview').test('preview-2')).toBe(true)
+    expect(templateToPattern('preview').test('previews')).toBe(false)
+  })
+
+  it('Numbers names that are taken, or fails', () => {
+    const services = [
+      service('pr-42', 'READY'),
+      service('pr-42-2', 'PAUSED'),
+      service('pr-42-3', 'DELETING')
+    ]
+
+    expect(avoidNameCollision('pr-42', services, 'suffix')).toBe('pr-42-3')
+    expect(avoidNameCollision('pr-43', services, 'suffix')).toBe('pr-43')
+    expect(avoidNameCollision('pr-42', services, 'allow')).toBe('pr-42')
+    expect(() => avoidNameCollision('pr-42', services, 'fail')).toThrow(
+      'Invalid name: pr-42 is already used by service id-pr-42. Set name_collision to suffix to number the name instead'
+    )
+  })
+
+  describe('end to end', () => {
+    const action = simulateAction()
+    const { inputs } = action
+
+    const env = { ...process.env }
+
+    afterEach(() => {
+      process.env = { ...env }
+    })
+
+    it('Resolves the name template and numbers a taken name', async () => {
+      await action.start({
+        statuses: ['READY'],
+        existingServices: [
+          {
+            service_id: 'earlier',
+            project_id: 'project-456',
+            name: 'shop-main-0123456',
+            region_code: 'us-east-1',
+            status: 'READY'
+          }
+        ]
+      })
+      process.env.GITHUB_REPOSITORY = 'owner/shop'
+      process.env.GITHUB_REF_NAME = 'main'
+      process.env.GITHUB_SHA = '0123456789abcdef'
+      delete process.env.GITHUB_HEAD_REF
+      delete process.env.GITHUB_EVENT_PATH
+      inputs.name = '{repo}-{branch}-{sha7}'
+      inputs.name_collision = 'suffix'
+
+      await run()
+
+      expect(core.setFailed).not.toHaveBeenCalled()
+      expect(core.info).toHaveBeenCalledWith(
+        'A service named shop-main-0123456 already exists, naming the fork shop-main-0123456-2'
+      )
+      expect(
+        action.simulator.requests.find((r) => r.operation === 'forkService')
+          ?.body
+      ).toEqual({ fork_strategy: 'NOW', name: 'shop-main-0123456-2' })
+    })
+
+    it('Rejects a random suffix together with reuse', async () => {
+      await action.start()
+      inputs.name = 'pr-42'
+      inputs.reuse = 'true'
+      inputs.name_suffix = 'true'
+
+      await run()
+
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'name_suffix cannot be combined with reuse or pull-request mode, which look up the fork by its name'
+      )
+    })
+  })
+})
@@ -0,0 +1,158 @@
+/**
+ * Unit tests for the fork policy, src/policy.ts
+ */
+import { jest } from '@jest/globals'
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { simulateAction } from '../__fixtures__/action.js'
+import * as core from '../__fixtures__/core.js'
+import type { ForkPlan, ForkPolicy } from '../src/policy.js'
+
+jest.unstable_mockModule('@actions/core', () => core)
+
+const { checkPolicy, loadPolicy } = await import('../src/policy.js')
+const { run } = await import('../src/main.js')
+
+describe('policy.ts', () => {
+  let dir: string
+
+  const plan: ForkPlan = {
+    serviceIds: ['service-789'],
+    strategy: 'now',
+    cpuMillis: '1000',
+    memoryGbs: '4',
+    cleanup: true,
+    branch: 'feature/checkout',
+    event: 'pull_request'
+  }
+
+  async function load(content: string): Promise<ForkPolicy | undefined> {
+    const path = join(dir, 'policy.yml')
+    await writeFile(path, content)
+    return loadPolicy(path)
+  }
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'fork-service-'))
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('Reads the policy file', async () => {
+    const policy = await load(
+      [
+        'services:',
+        '  - service-789',
+        '  - service_id: service-012',
+        '    branches: [main]',
+        "branches: ['feature/*']",
+        'events: [pull_request, push]',
+        'max_cpu_millis: 2000',
+        'max_memory_gbs: 8',
+        'strategies: [now, Last-Snapshot]',
+        'require_cleanup: true'
+      ].join('\n')
+    )
+
+    expect(policy).toEqual({
+      path: join(dir, 'policy.yml'),
+      services: [
+        { serviceId: 'service-789' },
+        {
+          serviceId: 'service-012',
+          branches: ['main'],
+          events: undefined
+        }
+      ],
+      branches: ['feature/*'],
+      events: ['pull_request', 'push'],
+      maxCpuMillis: 2000,
+      maxMemoryGbs: 8,
+      strategies: ['now', 'last-snapshot'],
+      requireCleanup: true
+    })
+    expect(checkPolicy(policy!, plan)).toEqual([])
+  })
+
+  it('Only requires the policy file when it is set', async () => {
+    await expect(loadPolicy('')).resolves.toBeUndefined()
+    await expect(loadPolicy(join(dir, 'missing.yml'))).rejects.toThrow(
+      /^Invalid policy_file: .*missing\.yml could not be read/
+    )
+    await expect(load('max_cpu_millis: lots')).rejects.toThrow(
+      /max_cpu_millis in .* must be a positive number$/
+    )
+  })
+
+  it('Explains every rule the plan violates', () => {
+    const policy: ForkPolicy = {
+      path: '.github/tigerdata-fork-policy.yml',
+      services: [{ serviceId: 'service-789', branches: ['release/**'] }],
+      branches: ['main'],
+      events: ['push'],
+      maxCpuMillis: 2000,
+      maxMemoryGbs: 8,
+      strategies: ['last-snapshot'],
+      requireCleanup: true
+    }
+
+    expect(
+      checkPolicy(policy, {
+        ...plan,
+        serviceIds: ['service-789', 'production'],
+        cpuMillis: '4000',
+        memoryGbs: undefined,
+        cleanup: false
+      })
+    ).toEqual([
+      'service service-789 cannot be forked from branch feature/checkout, allowed branches are: main, release/**',
+      'service service-789 cannot be forked from pull_request events, allowed events are: push',
+      'service production is not allowed to be forked, allowed services are: service-789',
+      'cpu_millis 4000 exceeds the limit of 2000 milli-cores',
+      'memory_gbs is not set, so the fork would get the resources of its parent, which may exceed the limit of 8 GB. Set memory_gbs to at most 8',
+      'fork_strategy now is not allowed, allowed strategies are: last-snapshot',
+      'cleanup is never, but forks must be cleaned up. Set cleanup to always, on-success or on-failure'
+    ])
+    expect(
+      checkPolicy(policy, {
+        ...plan,
+        branch: 'release/2025/10',
+        event: 'push',
+        strategy: 'last-snapshot'
+      })
+    ).toEqual([])
+  })
+
+  describe('end to end', () => {
+    const action = simulateAction()
+    const { inputs } = action
+
+    it('Rejects requests that violate the policy file', async () => {
+      await action.start()
+      const dir = await mkdtemp(join(tmpdir(), 'fork-service-'))
+      await writeFile(
+        join(dir, 'policy.yml'),
+        'services: [service-012]\nmax_cpu_millis: 1000\n'
+      )
+      inputs.policy_file = join(dir, 'policy.yml')
+      inputs.cpu_millis = '2000'
+
+      await run()
+      await rm(dir, { recursive: true, force: true })
+
+      expect(core.setFailed).toHaveBeenCalledWith(
+        `The fork request violates the policy in ${join(dir, 'policy.yml')}:\n` +
+          '- service service-789 is not allowed to be forked, allowed services are: service-012\n' +
+          '- cpu_millis 2000 exceeds the limit of 1000 milli-cores'
+      )
+      expect(core.setOutput).toHaveBeenCalledWith(
+        'error_code',
+        'POLICY_VIOLATION'
+      )
+      expect(action.simulator.requests).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,158 @@
+/**
+ * Tests for polling the status of forks, src/poll.ts, running the action
+ * against the local API simulator
+ */
+import { jest } from '@jest/globals'
+import { simulateAction } from '../__fixtures__/action.js'
+import * as core from '../__fixtures__/core.js'
+
+jest.unstable_mockModule('@actions/core', () => core)
+
+const { run, post } = await import('../src/main.js')
+
+describe('poll.ts', () => {
+  const action = simulateAction()
+  const { inputs } = action
+
+  it('Stops polling when the status check is rejected', async () => {
+    await action.start({
+      faults: [
+        {
+          operation: 'getService',
+          status: 404,
+          body: { code: 'NOT_FOUND', message: 'Service not found' }
+        }
+      ]
+    })
+
+    await run()
+
+    expect(core.setFailed).toHaveBeenCalledWith(
+      expect.stringContaining('Check that project_id and service_id')
+    )
+    expect(core.setOutput).toHaveBeenCalledWith('error_code', 'NOT_FOUND')
+    expect(
+      action.simulator.requests.filter((r) => r.operation === 'getService')
+    ).toHaveLength(1)
+  })
+
+  it('Fails when the fork enters a terminal state', async () => {
+    await action.start({ statuses: ['QUEUED', 'UNSTABLE'] })
+
+    await run()
+
+    expect(core.setFailed).toHaveBeenCalledWith(
+      'Service fork000001 entered terminal state: UNSTABLE'
+    )
+    expect(core.setOutput).toHaveBeenCalledWith('error_code', 'TERMINAL_STATE')
+  })
+
+  it('Records every status transition in the timeline', async () => {
+    await action.start({
+      statuses: ['QUEUED', 'CONFIGURING', 'OPTIMIZING', 'READY']
+    })
+    inputs.poll_interval = '0.01'
+
+    await run()
+
+    const output = core.setOutput.mock.calls.find(
+      ([name]) => name === 'status_timeline'
+    )
+    const timeline = JSON.parse(String(output?.[1]))
+    expect(timeline.map((phase: { status: string }) => phase.status)).toEqual([
+      'QUEUED',
+      'CONFIGURING',
+      'OPTIMIZING',
+      'READY'
+    ])
+    expect(core.startGroup).toHaveBeenCalledTimes(1)
+    expect(core.endGroup).toHaveBeenCalledTimes(1)
+  })
+
+  it('Fails with a timeout when the fork does not become ready', async () => {
+    await action.start({ statuses: ['QUEUED'] })
+    inputs.wait_timeout = '0.3'
+    inputs.poll_interval = '0.05'
+
+    await run()
+
+    expect(core.setFailed).toHaveBeenCalledWith(
+      'Timeout: Service fork000001 did not become ready within 0.3 seconds'
+    )
+    expect(core.setOutput).toHaveBeenCalledWith('error_code', 'TIMEOUT')
+    expect(core.info).toHaveBeenCalledWith(
+      expect.stringMatching(/^ {2}QUEUED {7}\d+\.\ds/)
+    )
+  })
+
+  describe('deletion verification', () => {
+    it('Waits until the fork is deleted', async () => {
+      await action.start({
+        statuses: ['READY'],
+        deletionStatuses: ['DELETING', 'DELETING', 'DELETED']
+      })
+      inputs.cleanup = 'always'
+      inputs.wait_for_deletion = 'true'
+      inputs.poll_interval = '0.05'
+
+      await run()
+      await post()
+
+      expect(
+        action.simulator.requests.filter((r) => r.operation === 'getService')
+      ).toHaveLength(3)
+      expect(core.info).toHaveBeenCalledWith(
+        expect.stringMatching(/^Service fork000001 is deleted \(took/)
+      )
+      expect(core.warning).not.toHaveBeenCalled()
+      expect(core.summary.addTable).toHaveBeenCalledWith([
+        expect.any(Array),
+        [
+          'fork000001',
+          'Deleted',
+          expect.stringMatching(/^Deletion verified after/)
+        ]
+      ])
+      expect(core.summary.write).toHaveBeenCalled()
+    })
+
+    it('Warns when the deletion is not verified in time', async () => {
+      await action.start({
+        statuses: ['READY'],
+        deletionStatuses: ['DELETING']
+      })
+      inputs.cleanup = 'always'
+      inputs.wait_for_deletion = 'true'
+      inputs.deletion_timeout = '0.2'
+
+      await run()
+      await post()
+
+      expect(core.warning).toHaveBeenCalledWith(
+        'Deletion of forked service fork000001 was requested but could not be verified: ' +
+          'Timeout: Service fork000001 was not deleted within 0.2 seconds (last status: DELETING)'
+      )
+      expect(core.summary.addTable).toHaveBeenCalledWith([
+        expect.any(Array),
+        ['fork000001', 'Deletion not verified', expect.any(String)]
+      ])
+    })
+
+    it('Does not wait for the deletion by default', async () => {
+      await action.start({
+        statuses: ['READY'],
+        deletionStatuses: ['DELETING']
+      })
+      inputs.cleanup = 'always'
+
+      await run()
+      await post()
+
+      expect(action.simulator.requests.at(-1)?.operation).toBe('deleteService')
+      expect(core.summary.addTable).toHaveBeenCalledWith([
+        expect.any(Array),
+        ['fork000001', 'Deleted', 'Deletion requested']
+      ])
+    })
+  })
+})
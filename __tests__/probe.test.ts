@@ -0,0 +1,162 @@
+/**
+ * Unit tests for the connectivity probe, src/probe.ts
+ */
+import { jest } from '@jest/globals'
+import { closedPort, simulateAction } from '../__fixtures__/action.js'
+import * as core from '../__fixtures__/core.js'
+import {
+  startPostgresMock,
+  type PostgresMock
+} from '../__fixtures__/postgres.js'
+import type { ConnectionInfo } from '../src/connection.js'
+
+jest.unstable_mockModule('@actions/core', () => core)
+
+const { probeConnection } = await import('../src/probe.js')
+const { ConnectivityError } = await import('../src/errors.js')
+const { run } = await import('../src/main.js')
+
+describe('probe.ts', () => {
+  let postgres: PostgresMock | undefined
+
+  function connectionTo(
+    port: number,
+    overrides: Partial<ConnectionInfo> = {}
+  ): ConnectionInfo {
+    return {
+      host: '127.0.0.1',
+      port,
+      user: 'tsdbadmin',
+      password: 'secret',
+      database: 'tsdb',
+      sslmode: 'disable',
+      ...overrides
+    }
+  }
+
+  afterEach(async () => {
+    await postgres?.close()
+    postgres = undefined
+  })
+
+  it('Connects and authenticates', async () => {
+    postgres = await startPostgresMock({ password: 'secret' })
+
+    const result = await probeConnection(connectionTo(postgres.port))
+
+    expect(result.attempts).toBe(1)
+    expect(postgres.authenticated).toEqual(['tsdbadmin'])
+  })
+
+  it('Retries while the database is starting up', async () => {
+    postgres = await startPostgresMock({ password: 'secret', startupErrors: 2 })
+
+    const result = await probeConnection(connectionTo(postgres.port), {
+      intervalMs: 10
+    })
+
+    expect(result.attempts).toBe(3)
+    expect(core.info).toHaveBeenCalledWith(
+      expect.stringContaining(
+        'Probe attempt 1: PostgreSQL startup and authentication as tsdbadmin failed: the database system is starting up'
+      )
+    )
+  })
+
+  it('Diagnoses an authentication failure', async () => {
+    postgres = await startPostgresMock({ password: 'other' })
+
+    const error = await probeConnection(connectionTo(postgres.port), {
+      timeoutMs: 100,
+      intervalMs: 20
+    }).catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(ConnectivityError)
+    expect(error).toMatchObject({ layer: 'postgres', code: 'CONNECTIVITY' })
+    expect((error as Error).message).toContain(
+      'PostgreSQL startup and authentication as tsdbadmin failed: password authentication failed for user "tsdbadmin"'
+    )
+  })
+
+  it('Diagnoses a refused TCP connection', async () => {
+    postgres = await startPostgresMock({ password: 'secret' })
+    const { port } = postgres
+    await postgres.close()
+    postgres = undefined
+
+    const error = await probeConnection(connectionTo(port), {
+      timeoutMs: 100,
+      intervalMs: 20
+    }).catch((e: unknown) => e)
+
+    expect(error).toMatchObject({ layer: 'tcp' })
+    expect((error as Error).message).toMatch(
+      new RegExp(
+        `^Service at 127\\.0\\.0\\.1:${port} is not reachable after \\d+ attempt\\(s\\) in [\\d.]+s\\. TCP connection to 127\\.0\\.0\\.1:${port} failed: .*ECONNREFUSED`
+      )
+    )
+  })
+
+  it('Diagnoses a host that does not resolve', async () => {
+    const error = await probeConnection(
+      connectionTo(5432, { host: 'fork.does-not-exist.invalid' }),
+      { timeoutMs: 100, intervalMs: 20 }
+    ).catch((e: unknown) => e)
+
+    expect(error).toMatchObject({ layer: 'dns' })
+    expect((error as Error).message).toContain(
+      'DNS resolution of fork.does-not-exist.invalid failed'
+    )
+  })
+
+  it('Diagnoses a server that refuses SSL', async () => {
+    postgres = await startPostgresMock({ password: 'secret' })
+
+    const error = await probeConnection(
+      connectionTo(postgres.port, { sslmode: 'require' }),
+      { timeoutMs: 100, intervalMs: 20 }
+    ).catch((e: unknown) => e)
+
+    expect(error).toMatchObject({ layer: 'ssl' })
+    expect((error as Error).message).toContain(
+      'SSL negotiation failed: the server does not accept SSL connections'
+    )
+    expect(postgres.authenticated).toEqual([])
+  })
+
+  it('Stops when the signal aborts', async () => {
+    postgres = await startPostgresMock({ password: 'other' })
+    const controller = new AbortController()
+    const reason = new Error('cancelled')
+    setTimeout(() => controller.abort(reason), 50)
+
+    await expect(
+      probeConnection(connectionTo(postgres.port), {
+        intervalMs: 1000,
+        signal: controller.signal
+      })
+    ).rejects.toBe(reason)
+  })
+
+  describe('end to end', () => {
+    const action = simulateAction()
+    const { inputs } = action
+
+    it('Fails with a diagnosis when the fork is not reachable', async () => {
+      await action.start({
+        statuses: ['READY'],
+        endpoint: { host: '127.0.0.1', port: await closedPort() }
+      })
+      inputs.probe = 'true'
+      inputs.probe_timeout = '0.1'
+
+      await run()
+
+      expect(core.setOutput).toHaveBeenCalledWith('error_code', 'CONNECTIVITY')
+      expect(core.setFailed).toHaveBeenCalledWith(
+        expect.stringMatching(/TCP connection to 127\.0\.0\.1:\d+ failed/)
+      )
+      expect(core.setOutput).not.toHaveBeenCalledWith('host', expect.anything())
+    })
+  })
+})
@@ -0,0 +1,266 @@
+/**
+ * Unit tests for the pull request lifecycle mode, src/pull-request.ts
+ */
+import { jest } from '@jest/globals'
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { simulateAction } from '../__fixtures__/action.js'
+import * as core from '../__fixtures__/core.js'
+import { startGitHubMock, type GitHubMock } from '../__fixtures__/github.js'
+import type { Service } from '../src/types.js'
+
+jest.unstable_mockModule('@actions/core', () => core)
+
+const { COMMENT_MARKER, formatForksComment, upsertPullRequestComment } =
+  await import('../src/pull-request.js')
+const { run, post } = await import('../src/main.js')
+
+describe('pull-request.ts', () => {
+  const env = { ...process.env }
+  const pr = { number: 42, action: 'synchronize', headSha: '0123456789abcdef' }
+  let github: GitHubMock | undefined
+
+  afterEach(async () => {
+    process.env = { ...env }
+    await github?.close()
+    github = undefined
+  })
+
+  it('Escapes the cells of the table of forks', () => {
+    const fork: Service = {
+      service_id: 'fork000001',
+      project_id: 'project-456',
+      name: 'fix | `code`\nnext',
+      region_code: 'us-east-1',
+      status: 'READY',
+      endpoint: { host: 'fork000001.example.com', port: 5432 }
+    }
+
+    expect(formatForksComment([fork], pr).split('\n')[4]).toBe(
+      '| `fork000001` | fix \\| \\`code\\` next | `fork000001.example.com:5432` | READY |'
+    )
+  })
+
+  it('Updates its comment on a later page instead of posting another', async () => {
+    const comments = (page: number): { id: number; body: string }[] =>
+      Array.from({ length: 100 }, (_, index) => ({
+        id: page * 100 + index,
+        body: 'A comment'
+      }))
+    github = await startGitHubMock((request) => {
+      if (request.path.endsWith('&page=1')) {
+        return { status: 200, body: comments(1) }
+      }
+      if (request.path.endsWith('&page=2')) {
+        return {
+          status: 200,
+          body: [{ id: 7, body: `${COMMENT_MARKER}\nold` }]
+        }
+      }
+      return { status: 200, body: { id: 7 } }
+    })
+    process.env.GITHUB_API_URL = github.url
+    process.env.GITHUB_REPOSITORY = 'owner/repo'
+
+    await upsertPullRequestComment(pr, 'new', 'github-token')
+
+    expect(core.warning).not.toHaveBeenCalled()
+    expect(github.requests.map((r) => `${r.method} ${r.path}`)).toEqual([
+      'GET /repos/owner/repo/issues/42/comments?per_page=100&page=1',
+      'GET /repos/owner/repo/issues/42/comments?per_page=100&page=2',
+      'PATCH /repos/owner/repo/issues/comments/7'
+    ])
+    expect(github.requests[2].body).toEqual({ body: `${COMMENT_MARKER}\nnew` })
+  })
+
+  it('Posts a comment after looking through every page', async () => {
+    github = await startGitHubMock((request) =>
+      request.method === 'GET'
+        ? {
+            status: 200,
+            body: request.path.endsWith('&page=1')
+              ? Array.from({ length: 100 }, (_, id) => ({ id, body: 'A' }))
+              : []
+          }
+        : { status: 201, body: { id: 7 } }
+    )
+    process.env.GITHUB_API_URL = github.url
+    process.env.GITHUB_REPOSITORY = 'owner/repo'
+
+    await upsertPullRequestComment(pr, 'new', 'github-token')
+
+    expect(github.requests.map((r) => `${r.method} ${r.path}`)).toEqual([
+      'GET /repos/owner/repo/issues/42/comments?per_page=100&page=1',
+      'GET /repos/owner/repo/issues/42/comments?per_page=100&page=2',
+      'POST /repos/owner/repo/issues/42/comments'
+    ])
+  })
+
+  describe('end to end', () => {
+    const action = simulateAction()
+    const { inputs } = action
+
+    const env = { ...process.env }
+    let github: GitHubMock | undefined
+    let dir: string
+    const existing: Service = {
+      service_id: 'fork-earlier',
+      project_id: 'project-456',
+      name: 'fork-42',
+      region_code: 'us-east-1',
+      created: '2025-10-01T15:29:00Z',
+      status: 'READY',
+      endpoint: { host: 'fork-earlier.example.com', port: 5432 },
+      forked_from: { project_id: 'project-456', service_id: 'service-789' }
+    }
+
+    async function startPullRequest(
+      event: string,
+      existingServices: Service[] = [],
+      comments: { id: number; body: string }[] = []
+    ): Promise<void> {
+      await action.start({ statuses: ['READY'], existingServices })
+      github = await startGitHubMock((request) =>
+        request.method === 'GET'
+          ? { status: 200, body: comments }
+          : { status: 200, body: { id: 7 } }
+      )
+      dir = await mkdtemp(join(tmpdir(), 'fork-service-'))
+      await writeFile(
+        join(dir, 'event.json'),
+        JSON.stringify({
+          action: event,
+          pull_request: { number: 42, head: { sha: '0123456789abcdef' } }
+        })
+      )
+      process.env.GITHUB_API_URL = github.url
+      process.env.GITHUB_REPOSITORY = 'owner/repo'
+      process.env.GITHUB_EVENT_NAME = 'pull_request'
+      process.env.GITHUB_EVENT_PATH = join(dir, 'event.json')
+      inputs.mode = 'pull-request'
+      inputs.pr_comment = 'true'
+      inputs.github_token = 'github-token'
+    }
+
+    afterEach(async () => {
+      process.env = { ...env }
+      await github?.close()
+      github = undefined
+      await rm(dir, { recursive: true, force: true })
+    })
+
+    it('Creates the fork of an opened pull request and comments on it', async () => {
+      await startPullRequest('opened')
+      inputs.cleanup = 'always'
+
+      await run()
+      await post()
+
+      expect(core.setFailed).not.toHaveBeenCalled()
+      // The fork of an earlier run is looked up first
+      expect(action.simulator.requests[1]).toMatchObject({
+        operation: 'forkService',
+        body: { fork_strategy: 'NOW', name: 'fork-42' }
+      })
+      expect(core.warning).toHaveBeenCalledWith(
+        'cleanup input is ignored in pull-request mode, the fork is deleted when the pull request is closed'
+      )
+      expect(action.simulator.services.get('fork000001')?.status).toBe('READY')
+      expect(github?.requests.map((r) => `${r.method} ${r.path}`)).toEqual([
+        'GET /repos/owner/repo/issues/42/comments?per_page=100&page=1',
+        'POST /repos/owner/repo/issues/42/comments'
+      ])
+      const { body } = github?.requests[1].body as { body: string }
+      expect(body).toMatch(/^<!-- tigerdata-fork-service -->\n/)
+      expect(body).toContain('| `fork000001` | fork-42 |')
+      expect(body).toContain('Updated for 0123456')
+      expect(body).not.toContain('password-fork000001')
+    })
+
+    it('Reuses the fork on a push and updates the comment', async () => {
+      await startPullRequest(
+        'synchronize',
+        [existing],
+        [{ id: 7, body: '<!-- tigerdata-fork-service -->\nold' }]
+      )
+
+      await run()
+
+      expect(core.setFailed).not.toHaveBeenCalled()
+      expect(core.setOutput).toHaveBeenCalledWith('service_id', 'fork-earlier')
+      expect(core.setOutput).toHaveBeenCalledWith('reused', 'true')
+      expect(action.simulator.requests.map((r) => r.operation)).not.toContain(
+        'forkService'
+      )
+      expect(github?.requests[1]).toMatchObject({
+        method: 'PATCH',
+        path: '/repos/owner/repo/issues/comments/7'
+      })
+    })
+
+    it('Replaces the fork on a push with pr_refresh', async () => {
+      await startPullRequest('synchronize', [existing])
+      inputs.pr_refresh = 'true'
+
+      await run()
+
+      expect(core.setFailed).not.toHaveBeenCalled()
+      expect(action.simulator.services.get('fork-earlier')?.status).toBe(
+        'DELETED'
+      )
+      expect(core.setOutput).toHaveBeenCalledWith('service_id', 'fork000001')
+      expect(core.setOutput).toHaveBeenCalledWith('reused', 'false')
+    })
+
+    it('Deletes the fork when the pull request is closed', async () => {
+      await startPullRequest('closed', [existing])
+
+      await run()
+      await post()
+
+      expect(core.setFailed).not.toHaveBeenCalled()
+      expect(action.simulator.services.get('fork-earlier')?.status).toBe(
+        'DELETED'
+      )
+      expect(action.simulator.requests.map((r) => r.operation)).toEqual([
+        'listServices',
+        'deleteService'
+      ])
+      expect(core.setOutput).toHaveBeenCalledWith(
+        'deleted',
+        JSON.stringify(['fork-earlier'])
+      )
+      expect((github?.requests[1].body as { body: string }).body).toContain(
+        'its fork was deleted: `fork-earlier`'
+      )
+    })
+
+    it('Never deletes a service with the name that is not a fork', async () => {
+      await startPullRequest('closed', [
+        { ...existing, service_id: 'staging-1', forked_from: undefined }
+      ])
+
+      await run()
+
+      expect(core.setFailed).not.toHaveBeenCalled()
+      expect(action.simulator.services.get('staging-1')?.status).toBe('READY')
+      expect(action.simulator.requests.map((r) => r.operation)).toEqual([
+        'listServices'
+      ])
+      expect(core.setOutput).toHaveBeenCalledWith('deleted', '[]')
+    })
+
+    it('Fails outside of pull request workflows', async () => {
+      await startPullRequest('opened')
+      process.env.GITHUB_EVENT_NAME = 'push'
+
+      await run()
+
+      expect(core.setFailed).toHaveBeenCalledWith(
+        'mode pull-request requires a workflow triggered by pull_request or pull_request_target, not push'
+      )
+      expect(action.simulator.requests).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,175 @@
+/**
+ * Unit tests for the concurrency limit of forks, src/queue.ts
+ */
+import { jest } from '@jest/globals'
+import * as core from '../__fixtures__/core.js'
+import type { Service } from '../src/types.js'
+
+// Mock the API module
+const mockListServices = jest.fn<() => Promise<Service[]>>()
+const mockDeleteService = jest.fn<() => Promise<void>>()
+
+jest.unstable_mockModule('../src/api.js', () => ({
+  listServices: mockListServices,
+  deleteService: mockDeleteService
+}))
+
+jest.unstable_mockModule('@actions/core', () => core)
+
+const { findCountedForks, waitForForkSlot } = await import('../src/queue.js')
+const { templateToPattern } = await import('../src/naming.js')
+
+describe('queue.ts', () => {
+  const fork = (
+    service_id: string,
+    name: string,
+    created: string,
+    parent = 'service-789'
+  ): Service => ({
+    service_id,
+    project_id: 'project-456',
+    name,
+    region_code: 'us-east-1',
+    created,
+    status: 'READY',
+    forked_from: { project_id: 'project-456', service_id: parent }
+  })
+
+  const options = {
+    maxForks: 2,
+    pattern: templateToPattern('ci-{run_id}'),
+    parentServiceIds: ['service-789'],
+    timeoutMs: 1000,
+    intervalMs: 10,
+    maxIntervalMs: 20,
+    evictOldest: false,
+    keep: []
+  }
+
+  afterEach(() => {
+    mockListServices.mockReset()
+    mockDeleteService.mockReset()
+  })
+
+  it('Counts only the forks of the parents that follow the naming convention', () => {
+    const forks = findCountedForks(
+      [
+        fork('ci-2', 'ci-2', '2025-10-01T11:00:00Z'),
+        fork('ci-1', 'ci-1', '2025-10-01T10:00:00Z'),
+        fork('preview', 'preview', '2025-10-01T09:00:00Z'),
+        fork('other', 'ci-0', '2025-10-01T09:00:00Z', 'service-other'),
+        fork('manual', 'ci-manual', '2025-10-01T09:00:00Z'),
+        {
+          ...fork('gone', 'ci-gone', '2025-10-01T09:00:00Z'),
+          status: 'DELETING'
+        },
+        { ...fork('paused', 'ci-3', '2025-10-01T12:00:00Z'), status: 'PAUSED' },
+        {
+          ...fork('not-a-fork', 'ci-4', '2025-10-01T09:00:00Z'),
+          forked_from: undefined
+        }
+      ],
+      options
+    )
+
+    expect(forks.map((service) => service.service_id)).toEqual([
+      'manual',
+      'ci-1',
+      'ci-2',
+      'paused'
+    ])
+  })
+
+  it('Waits with backoff until a fork slot is free', async () => {
+    const full = [
+      fork('ci-1', 'ci-1', '2025-10-01T10:00:00Z'),
+      fork('ci-2', 'ci-2', '2025-10-01T11:00:00Z')
+    ]
+    mockListServices
+      .mockResolvedValueOnce(full)
+      .mockResolvedValueOnce(full)
+      .mockResolvedValueOnce([{ ...full[0], status: 'DELETING' }, full[1]])
+
+    await waitForForkSlot('project-456', 'key', options)
+
+    expect(mockListServices).toHaveBeenCalledTimes(3)
+    const waiting = expect.stringMatching(
+      /^All 2 fork slots are taken \(ci-1, ci-2\), checking again in 0s \(giving up in /
+    )
+    expect(core.info.mock.calls.map(([message]) => message)).toEqual([
+      waiting,
+      waiting,
+      '1 of 2 fork slots are taken, creating the fork'
+    ])
+    expect(mockDeleteService).not.toHaveBeenCalled()
+  })
+
+  it('Fails when no slot is free before the timeout', async () => {
+    mockListServices.mockResolvedValue([
+      fork('ci-1', 'ci-1', '2025-10-01T10:00:00Z'),
+      fork('ci-2', 'ci-2', '2025-10-01T11:00:00Z')
+    ])
+
+    const error = await waitForForkSlot('project-456', 'key', {
+      ...options,
+      timeoutMs: 30
+    }).catch((error: unknown) => error)
+
+    expect(error).toMatchObject({
+      message: 'All 2 fork slots are still taken after 0s: ci-1, ci-2',
+      code: 'CONCURRENCY_LIMIT',
+      serviceIds: ['ci-1', 'ci-2']
+    })
+  })
+
+  it('Stops listing and evicting forks when cancelled', async () => {
+    const controller = new AbortController()
+    mockListServices.mockImplementation(async () => {
+      controller.abort(new Error('The run was cancelled'))
+      return [
+        fork('ci-1', 'ci-1', '2025-10-01T10:00:00Z'),
+        fork('ci-2', 'ci-2', '2025-10-01T11:00:00Z')
+      ]
+    })
+
+    await expect(
+      waitForForkSlot(
+        'project-456',
+        'key',
+        { ...options, evictOldest: true, signal: controller.signal },
+        { baseUrl: 'https://api.example.com' }
+      )
+    ).rejects.toThrow('The run was cancelled')
+
+    expect(mockListServices).toHaveBeenCalledWith('project-456', 'key', {
+      baseUrl: 'https://api.example.com',
+      signal: controller.signal
+    })
+    expect(mockDeleteService).not.toHaveBeenCalled()
+  })
+
+  it('Evicts the oldest fork that is not kept', async () => {
+    mockListServices.mockResolvedValue([
+      fork('ci-1', 'ci-1', '2025-10-01T10:00:00Z'),
+      fork('ci-2', 'ci-2', '2025-10-01T11:00:00Z'),
+      fork('ci-3', 'ci-3', '2025-10-01T12:00:00Z')
+    ])
+
+    await waitForForkSlot(
+      'project-456',
+      'key',
+      { ...options, maxForks: 2, evictOldest: true, keep: ['ci-1'] },
+      { baseUrl: 'https://api.example.com' }
+    )
+
+    // ci-1 is kept, so the forks after it are evicted even though the list
+    // still shows them
+    expect(mockDeleteService.mock.calls).toEqual([
+      ['project-456', 'ci-2', 'key', { baseUrl: 'https://api.example.com' }],
+      ['project-456', 'ci-3', 'key', { baseUrl: 'https://api.example.com' }]
+    ])
+    expect(core.info).toHaveBeenLastCalledWith(
+      '1 of 2 fork slots are taken, creating the fork'
+    )
+  })
+})
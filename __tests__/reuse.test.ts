@@ -0,0 +1,130 @@
+/**
+ * Tests for reusing the fork of an earlier run, src/reuse.ts, running the
+ * action against the local API simulator
+ */
+import { jest } from '@jest/globals'
+import { simulateAction } from '../__fixtures__/action.js'
+import * as core from '../__fixtures__/core.js'
+import type { Service } from '../src/types.js'
+
+jest.unstable_mockModule('@actions/core', () => core)
+
+const { run } = await import('../src/main.js')
+
+describe('reuse.ts', () => {
+  const action = simulateAction()
+  const { inputs } = action
+
+  const existing: Service = {
+    service_id: 'fork-earlier',
+    project_id: 'project-456',
+    name: 'pr-42',
+    region_code: 'us-east-1',
+    created: '2025-10-01T15:29:00Z',
+    status: 'PAUSED',
+    paused: true,
+    endpoint: { host: 'fork-earlier.example.com', port: 5432 },
+    forked_from: { project_id: 'project-456', service_id: 'service-789' }
+  }
+
+  it('Resumes and reuses a paused fork with the same name', async () => {
+    await action.start({ existingServices: [existing] })
+    inputs.reuse = 'true'
+    inputs.name = 'pr-42'
+    inputs.poll_interval = '0.05'
+
+    await run()
+
+    expect(core.setFailed).not.toHaveBeenCalled()
+    expect(action.simulator.requests.map((r) => r.operation)).toEqual([
+      'listServices',
+      'resumeService',
+      'getService',
+      'updatePassword'
+    ])
+    expect(core.setOutput).toHaveBeenCalledWith('reused', 'true')
+    expect(core.setOutput).toHaveBeenCalledWith('service_id', 'fork-earlier')
+    const password =
+      action.simulator.services.get('fork-earlier')?.initial_password
+    expect(password).toEqual(expect.any(String))
+    expect(core.setSecret).toHaveBeenCalledWith(password)
+    expect(core.setOutput).toHaveBeenCalledWith('initial_password', password)
+    expect(action.simulator.services.get('fork-earlier')?.status).toBe('READY')
+  })
+
+  it('Waits for a fork that is being paused before resuming it', async () => {
+    await action.start({
+      existingServices: [{ ...existing, status: 'PAUSING', paused: false }]
+    })
+    inputs.reuse = 'true'
+    inputs.name = 'pr-42'
+    inputs.poll_interval = '0.01'
+
+    await run()
+
+    expect(core.setFailed).not.toHaveBeenCalled()
+    expect(action.simulator.requests.map((r) => r.operation)).toEqual([
+      'listServices',
+      'getService',
+      'resumeService',
+      'getService',
+      'updatePassword'
+    ])
+    expect(core.info).toHaveBeenCalledWith('Service fork-earlier is PAUSED')
+    expect(action.simulator.services.get('fork-earlier')?.status).toBe('READY')
+  })
+
+  it('Creates a fork when no fork of the parent has the name', async () => {
+    await action.start({
+      statuses: ['READY'],
+      existingServices: [
+        {
+          ...existing,
+          forked_from: { project_id: 'project-456', service_id: 'other' }
+        }
+      ]
+    })
+    inputs.reuse = 'true'
+    inputs.name = 'pr-42'
+
+    await run()
+
+    expect(core.info).toHaveBeenCalledWith(
+      'Service fork-earlier is named pr-42 but is not a fork of service-789, not reusing it.'
+    )
+    expect(core.setOutput).toHaveBeenCalledWith('reused', 'false')
+    expect(core.setOutput).toHaveBeenCalledWith('service_id', 'fork000001')
+  })
+
+  it('Never reuses a service with the name that is not a fork', async () => {
+    await action.start({
+      statuses: ['READY'],
+      existingServices: [{ ...existing, forked_from: undefined }]
+    })
+    inputs.reuse = 'true'
+    inputs.name = 'pr-42'
+
+    await run()
+
+    expect(core.info).toHaveBeenCalledWith(
+      'Service fork-earlier is named pr-42 but is not a fork of service-789, not reusing it.'
+    )
+    expect(action.simulator.requests.map((r) => r.operation)).not.toContain(
+      'updatePassword'
+    )
+    expect(core.setOutput).toHaveBeenCalledWith('service_id', 'fork000001')
+    expect(action.simulator.services.get('fork-earlier')?.status).toBe('PAUSED')
+  })
+
+  it('Requires a name', async () => {
+    await action.start()
+    inputs.reuse = 'true'
+
+    await run()
+
+    expect(core.setFailed).toHaveBeenCalledWith(
+      'name input is required when reuse is enabled, to find the fork to reuse'
+    )
+    expect(action.simulator.requests).toHaveLength(0)
+  })
+})
@@ -0,0 +1,238 @@
+/**
+ * Unit tests for the local API simulator, src/simulator.ts
+ */
+import {
+  startSimulator,
+  type Simulator,
+  type SimulatorOptions
+} from '../src/simulator.js'
+import type { Service } from '../src/types.js'
+
+describe('simulator.ts', () => {
+  const auth = `Basic ${Buffer.from('public-key:secret-key').toString('base64')}`
+  let simulator: Simulator | undefined
+
+  afterEach(async () => {
+    await simulator?.close()
+    simulator = undefined
+  })
+
+  async function start(options: SimulatorOptions = {}): Promise<Simulator> {
+    simulator = await startSimulator({
+      apiKey: 'public-key:secret-key',
+      ...options
+    })
+    return simulator
+  }
+
+  async function call(
+    method: string,
+    path: string,
+    body?: unknown,
+    authorization = auth
+  ): Promise<{ status: number; headers: Headers; body: unknown }> {
+    const response = await fetch(`${simulator?.url}${path}`, {
+      method,
+      headers: { Authorization: authorization },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    })
+    const text = await response.text()
+    return {
+      status: response.status,
+      headers: response.headers,
+      body: text ? JSON.parse(text) : undefined
+    }
+  }
+
+  const existing: Service = {
+    service_id: 'fork-earlier',
+    project_id: 'project-456',
+    name: 'pr-42',
+    region_code: 'us-east-1',
+    status: 'PAUSED',
+    paused: true
+  }
+
+  it('Forks a service that goes through the scripted statuses', async () => {
+    await start({ statuses: ['QUEUED', 'READY'] })
+
+    const fork = await call(
+      'POST',
+      '/projects/project-456/services/service-789/forkService',
+      { fork_strategy: 'NOW', name: 'e2e-fork' }
+    )
+
+    expect(fork).toMatchObject({
+      status: 202,
+      body: {
+        service_id: 'fork000001',
+        name: 'e2e-fork',
+        status: 'QUEUED',
+        initial_password: 'password-fork000001',
+        endpoint: {
+          host: 'fork000001.project-456.tsdb.cloud.timescale.com',
+          port: 5432
+        },
+        forked_from: { project_id: 'project-456', service_id: 'service-789' }
+      }
+    })
+    const path = '/projects/project-456/services/fork000001'
+    const first = await call('GET', path)
+    expect(first.body).toMatchObject({ status: 'READY' })
+    expect(first.body).not.toHaveProperty('initial_password')
+    expect((await call('GET', path)).body).toMatchObject({ status: 'READY' })
+    expect(simulator?.requests.map((r) => r.operation)).toEqual([
+      'forkService',
+      'getService',
+      'getService'
+    ])
+    expect(simulator?.requests[0]).toMatchObject({
+      method: 'POST',
+      path: '/projects/project-456/services/service-789/forkService',
+      body: { fork_strategy: 'NOW', name: 'e2e-fork' }
+    })
+  })
+
+  it('Reports the scripted deletion statuses before the service is gone', async () => {
+    await start({
+      statuses: ['READY'],
+      deletionStatuses: ['DELETING', 'DELETING', 'DELETED']
+    })
+    await call('POST', '/projects/project-456/services/service-789/forkService')
+    const path = '/projects/project-456/services/fork000001'
+
+    expect((await call('DELETE', path)).status).toBe(202)
+    expect((await call('GET', path)).body).toMatchObject({
+      status: 'DELETING'
+    })
+    expect((await call('GET', path)).body).toMatchObject({ status: 'DELETED' })
+    expect(await call('GET', path)).toMatchObject({
+      status: 404,
+      body: { code: 'NOT_FOUND', message: 'Service fork000001 not found' }
+    })
+    expect(simulator?.services.get('fork000001')?.status).toBe('DELETED')
+  })
+
+  it('Rejects requests with another API key and unknown routes', async () => {
+    await start()
+
+    expect(
+      await call(
+        'GET',
+        '/projects/project-456/services',
+        undefined,
+        `Basic ${Buffer.from('public-key:wrong').toString('base64')}`
+      )
+    ).toMatchObject({
+      status: 401,
+      body: { code: 'UNAUTHORIZED', message: 'Invalid API key' }
+    })
+    expect(await call('PUT', '/projects/project-456/services/x')).toMatchObject(
+      {
+        status: 404,
+        body: {
+          code: 'NOT_FOUND',
+          message: 'No route for PUT /projects/project-456/services/x'
+        }
+      }
+    )
+    expect(simulator?.requests.map((r) => r.operation)).toEqual([
+      'listServices',
+      'unknown'
+    ])
+  })
+
+  it('Injects faults in order, with Retry-After and a delay', async () => {
+    await start({
+      faults: [
+        { operation: 'listServices', status: 429, times: 2, retryAfter: 3 },
+        {
+          operation: 'listServices',
+          status: 503,
+          delayMs: 100,
+          body: { code: 'UNAVAILABLE', message: 'Try later' }
+        }
+      ]
+    })
+    const path = '/projects/project-456/services'
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const response = await call('GET', path)
+      expect(response).toMatchObject({
+        status: 429,
+        body: {
+          code: 'HTTP_429',
+          message: 'Simulated failure for listServices'
+        }
+      })
+      expect(response.headers.get('retry-after')).toBe('3')
+    }
+    const started = Date.now()
+    expect(await call('GET', path)).toMatchObject({
+      status: 503,
+      body: { code: 'UNAVAILABLE', message: 'Try later' }
+    })
+    expect(Date.now() - started).toBeGreaterThanOrEqual(90)
+    expect(await call('GET', path)).toMatchObject({ status: 200, body: [] })
+  })
+
+  it('Lists the services of a project without their passwords', async () => {
+    await start({
+      existingServices: [
+        { ...existing, initial_password: 'secret' },
+        { ...existing, service_id: 'elsewhere', project_id: 'project-999' }
+      ]
+    })
+
+    expect((await call('GET', '/projects/project-456/services')).body).toEqual([
+      { ...existing }
+    ])
+  })
+
+  it('Pauses and resumes a service', async () => {
+    await start({
+      existingServices: [{ ...existing, status: 'READY', paused: false }],
+      resumeStatuses: ['RESUMING', 'READY']
+    })
+    const path = '/projects/project-456/services/fork-earlier'
+
+    expect((await call('POST', `${path}/stop`)).body).toMatchObject({
+      status: 'PAUSED',
+      paused: true
+    })
+    expect((await call('POST', `${path}/start`)).body).toMatchObject({
+      status: 'RESUMING',
+      paused: false
+    })
+    expect((await call('GET', path)).body).toMatchObject({ status: 'READY' })
+    expect(simulator?.requests.map((r) => r.operation)).toEqual([
+      'pauseService',
+      'resumeService',
+      'getService'
+    ])
+  })
+
+  it('Finishes pausing an existing PAUSING service at the next status check', async () => {
+    await start({
+      existingServices: [{ ...existing, status: 'PAUSING', paused: false }]
+    })
+    const path = '/projects/project-456/services/fork-earlier'
+
+    expect((await call('GET', path)).body).toMatchObject({ status: 'PAUSED' })
+    expect(simulator?.services.get('fork-earlier')?.status).toBe('PAUSED')
+  })
+
+  it('Requires a password to update it', async () => {
+    await start({ existingServices: [existing] })
+    const path = '/projects/project-456/services/fork-earlier/updatePassword'
+
+    expect(await call('POST', path, {})).toMatchObject({
+      status: 400,
+      body: { code: 'BAD_REQUEST', message: 'password is required' }
+    })
+    expect((await call('POST', path, { password: 'new' })).status).toBe(204)
+    expect(simulator?.services.get('fork-earlier')?.initial_password).toBe(
+      'new'
+    )
+  })
+})
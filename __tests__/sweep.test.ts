@@ -0,0 +1,156 @@
+/**
+ * Tests for sweeping stale forks, src/sweep.ts, running the action against the
+ * local API simulator
+ */
+import { jest } from '@jest/globals'
+import { simulateAction } from '../__fixtures__/action.js'
+import * as core from '../__fixtures__/core.js'
+import type { SimulatorOptions } from '../src/simulator.js'
+import type { Service } from '../src/types.js'
+
+jest.unstable_mockModule('@actions/core', () => core)
+
+const { run, post } = await import('../src/main.js')
+
+describe('sweep.ts', () => {
+  const action = simulateAction()
+  const { inputs } = action
+
+  const hoursAgo = (hours: number): string =>
+    new Date(Date.now() - hours * 60 * 60 * 1000).toISOString()
+  const service = (
+    service_id: string,
+    name: string,
+    created: string,
+    overrides: Partial<Service> = {}
+  ): Service => ({
+    service_id,
+    project_id: 'project-456',
+    name,
+    region_code: 'us-east-1',
+    created,
+    status: 'READY',
+    forked_from: { project_id: 'project-456', service_id: 'service-789' },
+    ...overrides
+  })
+
+  async function startSweep(options: SimulatorOptions = {}): Promise<void> {
+    await action.start(
+      {
+        ...options,
+        existingServices: [
+          service('old-fork', 'ci-fork-1', hoursAgo(48)),
+          service('new-fork', 'ci-fork-2', hoursAgo(1)),
+          service('production', 'production', hoursAgo(2000), {
+            forked_from: undefined
+          }),
+          service('manual', 'ci-fork-manual', hoursAgo(2000), {
+            forked_from: undefined
+          }),
+          service('deleting', 'ci-fork-3', hoursAgo(72), {
+            status: 'DELETING'
+          }),
+          service('other-parent', 'ci-fork-4', hoursAgo(96), {
+            forked_from: { project_id: 'project-456', service_id: 'other' }
+          })
+        ]
+      },
+      {
+        mode: 'sweep',
+        project_id: 'project-456',
+        sweep_prefix: 'ci-fork-',
+        max_age: '24h'
+      }
+    )
+  }
+
+  it('Deletes matching forks older than max_age', async () => {
+    await startSweep()
+    inputs.service_id = 'service-789'
+
+    await run()
+    await post()
+
+    expect(core.setFailed).not.toHaveBeenCalled()
+    expect(
+      action.simulator.requests.map((r) => `${r.method} ${r.path}`)
+    ).toEqual([
+      'GET /projects/project-456/services',
+      'DELETE /projects/project-456/services/old-fork'
+    ])
+    expect(action.simulator.services.get('old-fork')?.status).toBe('DELETED')
+    const swept = JSON.parse(
+      core.setOutput.mock.calls.find(([name]) => name === 'swept')?.[1]
+    )
+    expect(swept).toEqual([
+      expect.objectContaining({
+        service_id: 'old-fork',
+        name: 'ci-fork-1',
+        age: '2d 0h',
+        outcome: 'Deleted'
+      })
+    ])
+    expect(core.summary.addHeading).toHaveBeenCalledWith('Stale fork sweep', 3)
+  })
+
+  it('Only reports the forks in a dry run', async () => {
+    await startSweep()
+    inputs.sweep_pattern = '^ci-fork-\\d+$'
+    inputs.cleanup_action = 'pause'
+    inputs.dry_run = 'true'
+
+    await run()
+
+    expect(core.setFailed).not.toHaveBeenCalled()
+    expect(action.simulator.requests.map((r) => r.operation)).toEqual([
+      'listServices'
+    ])
+    expect(core.info).toHaveBeenCalledWith(
+      expect.stringMatching(/^Would pause stale fork other-parent \(ci-fork-4/)
+    )
+    expect(core.info).toHaveBeenCalledWith(
+      expect.stringMatching(/^Would pause stale fork old-fork \(ci-fork-1/)
+    )
+  })
+
+  it('Keeps services with the prefix that are not forks', async () => {
+    await startSweep()
+
+    await run()
+
+    expect(core.setFailed).not.toHaveBeenCalled()
+    expect(action.simulator.services.get('manual')?.status).toBe('READY')
+    expect(core.info).not.toHaveBeenCalledWith(
+      expect.stringContaining('manual')
+    )
+  })
+
+  it('Sweeps the other forks when one cannot be deleted', async () => {
+    await startSweep({
+      faults: [{ operation: 'deleteService', status: 500 }]
+    })
+    inputs.retry_attempts = '1'
+
+    await run()
+
+    expect(action.simulator.services.get('old-fork')?.status).toBe('DELETED')
+    expect(core.setFailed).toHaveBeenCalledWith(
+      expect.stringMatching(
+        /^Failed to sweep 1 of 2 stale fork\(s\): other-parent: /
+      )
+    )
+    expect(core.setOutput).toHaveBeenCalledWith('error_code', 'SWEEP_FAILED')
+  })
+
+  it('Refuses to sweep without a naming convention', async () => {
+    await startSweep()
+    delete inputs.sweep_prefix
+
+    await run()
+
+    expect(core.setFailed).toHaveBeenCalledWith(
+      'sweep_prefix or sweep_pattern input is required in sweep mode, so that only forks are swept'
+    )
+    expect(action.simulator.requests).toHaveLength(0)
+  })
+})
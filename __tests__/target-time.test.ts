@@ -0,0 +1,123 @@
+/**
+ * Unit tests for the resolution of target_time expressions,
+ * src/target-time.ts
+ */
+import { jest } from '@jest/globals'
+
+// Mock the GitHub client
+const mockGetCommitTime =
+  jest.fn<(ref: string, token: string) => Promise<string>>()
+const mockGetEventPayload = jest.fn<() => Promise<Record<string, unknown>>>()
+
+jest.unstable_mockModule('../src/github.js', () => ({
+  getCommitTime: mockGetCommitTime,
+  getEventPayload: mockGetEventPayload
+}))
+
+const { resolveTargetTime } = await import('../src/target-time.js')
+const { validateForkRequest } = await import('../src/validation.js')
+
+describe('target-time.ts', () => {
+  const env = { ...process.env }
+  const now = Date.parse('2025-10-01T15:29:00Z')
+
+  afterEach(() => {
+    process.env = { ...env }
+    mockGetCommitTime.mockReset()
+    mockGetEventPayload.mockReset()
+  })
+
+  it('Passes absolute timestamps through', async () => {
+    await expect(
+      resolveTargetTime('2025-10-01T15:29:00+02:00', 'token', now)
+    ).resolves.toBe('2025-10-01T15:29:00+02:00')
+  })
+
+  it('Resolves times relative to now', async () => {
+    await expect(resolveTargetTime('-2h', 'token', now)).resolves.toBe(
+      '2025-10-01T13:29:00.000Z'
+    )
+    await expect(resolveTargetTime(' -1d ', 'token', now)).resolves.toBe(
+      '2025-09-30T15:29:00.000Z'
+    )
+    await expect(
+      resolveTargetTime('-2 fortnights', 'token', now)
+    ).rejects.toThrow(/^Invalid target_time: -2 fortnights\. Must be /)
+  })
+
+  it('Resolves times of today and yesterday in UTC', async () => {
+    await expect(resolveTargetTime('today', 'token', now)).resolves.toBe(
+      '2025-10-01T00:00:00.000Z'
+    )
+    await expect(
+      resolveTargetTime('today 09:30 UTC', 'token', now)
+    ).resolves.toBe('2025-10-01T09:30:00.000Z')
+    await expect(
+      resolveTargetTime('Yesterday 23:59', 'token', now)
+    ).resolves.toBe('2025-09-30T23:59:00.000Z')
+    await expect(
+      resolveTargetTime('today 24:00 UTC', 'token', now)
+    ).rejects.toThrow(/^Invalid target_time: today 24:00 UTC\. Must be /)
+  })
+
+  it('Leaves times in the future to the validation', async () => {
+    const targetTime = await resolveTargetTime('today 23:00 UTC', 'token', now)
+
+    expect(targetTime).toBe('2025-10-01T23:00:00.000Z')
+    expect(() =>
+      validateForkRequest(
+        { fork_strategy: 'PITR', target_time: targetTime },
+        now
+      )
+    ).toThrow('Invalid target_time: 2025-10-01T23:00:00.000Z is in the future')
+  })
+
+  it('Resolves the time of the commit the workflow runs on', async () => {
+    process.env.GITHUB_SHA = 'head-sha'
+    mockGetCommitTime.mockResolvedValue('2025-10-01T17:29:00+02:00')
+
+    await expect(resolveTargetTime('commit', 'token', now)).resolves.toBe(
+      '2025-10-01T15:29:00.000Z'
+    )
+    expect(mockGetCommitTime).toHaveBeenCalledWith('head-sha', 'token')
+
+    await expect(
+      resolveTargetTime('commit:0123456', 'token', now)
+    ).resolves.toBe('2025-10-01T15:29:00.000Z')
+    expect(mockGetCommitTime).toHaveBeenLastCalledWith('0123456', 'token')
+  })
+
+  it('Reports commits that cannot be looked up', async () => {
+    mockGetCommitTime.mockRejectedValue(
+      new Error(
+        'GitHub API request failed: GET /repos/owner/repo/commits/nope returned 422 Unprocessable Entity'
+      )
+    )
+
+    await expect(
+      resolveTargetTime('commit:nope', 'token', now)
+    ).rejects.toThrow(
+      'Invalid target_time: commit:nope. The time of commit nope could not be looked up: GitHub API request failed: GET /repos/owner/repo/commits/nope returned 422 Unprocessable Entity'
+    )
+
+    delete process.env.GITHUB_SHA
+    await expect(resolveTargetTime('commit', 'token', now)).rejects.toThrow(
+      'Invalid target_time: commit. GITHUB_SHA is not set, use commit:<sha> instead'
+    )
+  })
+
+  it('Requires a pull request for pr-base', async () => {
+    mockGetEventPayload.mockResolvedValue({})
+
+    await expect(resolveTargetTime('pr-base', 'token', now)).rejects.toThrow(
+      'Invalid target_time: pr-base can only be used in workflows triggered by a pull request'
+    )
+    expect(mockGetCommitTime).not.toHaveBeenCalled()
+  })
+
+  it('Rejects expressions it does not understand', async () => {
+    await expect(resolveTargetTime('last week', 'token', now)).rejects.toThrow(
+      /^Invalid target_time: last week\. Must be /
+    )
+  })
+})
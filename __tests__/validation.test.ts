@@ -0,0 +1,131 @@
+/**
+ * Unit tests for the validation of fork requests, src/validation.ts
+ */
+import { jest } from '@jest/globals'
+import { simulateAction } from '../__fixtures__/action.js'
+import * as core from '../__fixtures__/core.js'
+import type { ForkServiceRequest } from '../src/types.js'
+
+jest.unstable_mockModule('@actions/core', () => core)
+
+const { validateForkRequest } = await import('../src/validation.js')
+const { run } = await import('../src/main.js')
+
+describe('validation.ts', () => {
+  const now = Date.parse('2025-10-01T15:29:00Z')
+
+  it('Accepts valid requests', () => {
+    const requests: ForkServiceRequest[] = [
+      { fork_strategy: 'NOW' },
+      { fork_strategy: 'NOW', cpu_millis: '2000', memory_gbs: '8' },
+      { fork_strategy: 'NOW', cpu_millis: '500' },
+      { fork_strategy: 'NOW', memory_gbs: '128' },
+      {
+        fork_strategy: 'NOW',
+        cpu_millis: 'shared',
+        memory_gbs: 'shared'
+      },
+      {
+        fork_strategy: 'PITR',
+        target_time: '2025-10-01T17:29:00+02:00',
+        name: 'pr-42 fork_1.0'
+      }
+    ]
+    for (const request of requests) {
+      expect(() => validateForkRequest(request, now)).not.toThrow()
+    }
+  })
+
+  it('Rejects target times without a time zone or in the future', () => {
+    expect(() =>
+      validateForkRequest(
+        { fork_strategy: 'PITR', target_time: '2025-10-01 15:29' },
+        now
+      )
+    ).toThrow(
+      'Invalid target_time: 2025-10-01 15:29. Must be an ISO 8601 timestamp with a time zone, e.g. 2025-10-01T15:29:00Z'
+    )
+    expect(() =>
+      validateForkRequest(
+        { fork_strategy: 'PITR', target_time: '2025-10-01T15:29:01Z' },
+        now
+      )
+    ).toThrow('Invalid target_time: 2025-10-01T15:29:01Z is in the future')
+  })
+
+  it('Rejects cpu_millis and memory_gbs that are not allowed', () => {
+    expect(() =>
+      validateForkRequest(
+        { fork_strategy: 'NOW', cpu_millis: '750', memory_gbs: '3' },
+        now
+      )
+    ).toThrow(
+      [
+        'Invalid cpu_millis: 750. Must be shared or one of 500, 1000, 2000, 4000, 8000, 16000, 32000',
+        'Invalid memory_gbs: 3. Must be shared or one of 2, 4, 8, 16, 32, 64, 128'
+      ].join('\n')
+    )
+    expect(() =>
+      validateForkRequest({ fork_strategy: 'NOW', cpu_millis: 'shared' }, now)
+    ).toThrow(
+      'Invalid cpu_millis and memory_gbs: shared and (not set). shared must be used for both'
+    )
+  })
+
+  it('Rejects cpu_millis and memory_gbs that do not form a compute size', () => {
+    expect(() =>
+      validateForkRequest(
+        { fork_strategy: 'NOW', cpu_millis: '4000', memory_gbs: '8' },
+        now
+      )
+    ).toThrow(
+      'Invalid cpu_millis and memory_gbs: 4000 milli-cores come with 16 GB of memory, not 8'
+    )
+    expect(() =>
+      validateForkRequest(
+        { fork_strategy: 'NOW', cpu_millis: '1000', memory_gbs: 'shared' },
+        now
+      )
+    ).toThrow(
+      'Invalid cpu_millis and memory_gbs: 1000 and shared. shared must be used for both'
+    )
+  })
+
+  it('Rejects names that are too long or contain other characters', () => {
+    expect(() =>
+      validateForkRequest({ fork_strategy: 'NOW', name: 'a'.repeat(129) }, now)
+    ).toThrow(/^Invalid name: a+\. Must be at most 128 characters long$/)
+    expect(() =>
+      validateForkRequest({ fork_strategy: 'NOW', name: '-fork' }, now)
+    ).toThrow(
+      'Invalid name: -fork. Must start with a letter or digit and contain only letters, digits, spaces, ., _ and -'
+    )
+  })
+
+  describe('end to end', () => {
+    const action = simulateAction()
+    const { inputs, state } = action
+
+    it('Reports every problem of the inputs without calling the API', async () => {
+      await action.start()
+      inputs.fork_strategy = 'timestamp'
+      inputs.target_time = '2999-01-01T00:00:00Z'
+      inputs.cpu_millis = '1000'
+      inputs.memory_gbs = '8'
+      inputs.name = 'pr/42'
+
+      await run()
+
+      expect(core.setFailed).toHaveBeenCalledWith(
+        [
+          'Invalid target_time: 2999-01-01T00:00:00Z is in the future',
+          'Invalid cpu_millis and memory_gbs: 1000 milli-cores come with 4 GB of memory, not 8',
+          'Invalid name: pr/42. Must start with a letter or digit and contain only letters, digits, spaces, ., _ and -'
+        ].join('\n')
+      )
+      expect(core.setOutput).toHaveBeenCalledWith('error_code', 'INVALID_INPUT')
+      expect(action.simulator.requests).toEqual([])
+      expect(state.forked_service_ids).toBeUndefined()
+    })
+  })
+})
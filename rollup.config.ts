@@ -32,6 +32,29 @@ const config = [
       sourcemap: true
     },
     plugins: sharedPlugins
+  },
+  // fork-service command line interface
+  {
+    input: 'src/fork-service.ts',
+    output: {
+      banner: '#!/usr/bin/env node',
+      esModule: true,
+      file: 'dist/fork-service.js',
+      format: 'es',
+      sourcemap: true
+    },
+    plugins: sharedPlugins
+  },
+  // Local TigerData API simulator
+  {
+    input: 'src/simulate.ts',
+    output: {
+      esModule: true,
+      file: 'dist/simulate.js',
+      format: 'es',
+      sourcemap: true
+    },
+    plugins: sharedPlugins
   }
 ]
 
@@ -1,9 +1,90 @@
 /**
  * API client for TigerData Cloud API
  */
+import { io } from './io.js'
+import { ApiRequestError, NetworkError, RequestTimeoutError } from './errors.js'
+import { sleep } from './time.js'
 import type { ForkServiceRequest, Service, ApiError } from './types.js'
 
-const API_BASE_URL = 'https://console.cloud.timescale.com/public/api/v1'
+/**
+ * Production base URL of the TigerData Cloud API
+ */
+export const DEFAULT_API_BASE_URL =
+  'https://console.cloud.timescale.com/public/api/v1'
+
+/**
+ * Environment variable that overrides the default API base URL
+ */
+export const API_URL_ENV = 'TIGERDATA_API_URL'
+
+/**
+ * Retry policy for transient API failures
+ */
+export interface RetryPolicy {
+  /** Maximum number of attempts, including the first one */
+  maxAttempts: number
+  /** Delay before the first retry in milliseconds, doubled on each retry */
+  initialDelayMs: number
+  /** Upper bound for a single delay in milliseconds, including Retry-After */
+  maxDelayMs: number
+}
+
+/**
+ * Default retry policy: 4 attempts with delays of roughly 1s, 2s and 4s
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  initialDelayMs: 1000,
+  maxDelayMs: 30 * 1000
+}
+
+/**
+ * Default time limit for a single request attempt: 30 seconds
+ */
+export const DEFAULT_REQUEST_TIMEOUT_MS = 30 * 1000
+
+/**
+ * HTTP methods that can be repeated without changing the outcome
+ */
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'PUT', 'DELETE']
+
+/**
+ * HTTP statuses that indicate a transient server-side failure
+ */
+const RETRYABLE_STATUSES = [500, 502, 503, 504]
+
+/**
+ * Options shared by all API client calls
+ */
+export interface ApiOptions {
+  /** Base URL of the API (defaults to the production console) */
+  baseUrl?: string
+  /** Retry policy for transient failures (default: DEFAULT_RETRY_POLICY) */
+  retry?: RetryPolicy
+  /**
+   * Time limit for each request attempt in milliseconds (default: 30s),
+   * Infinity for no limit
+   */
+  timeoutMs?: number
+  /**
+   * Cancels the request, including pending retries. The promise rejects with
+   * the signal's abort reason
+   */
+  signal?: AbortSignal
+}
+
+/**
+ * Resolves the API base URL to use
+ * An explicit value takes precedence over the TIGERDATA_API_URL environment
+ * variable, which in turn takes precedence over the production URL
+ *
+ * @param baseUrl - The explicitly configured base URL, if any
+ * @returns The base URL without a trailing slash
+ */
+export function resolveApiBaseUrl(baseUrl?: string): string {
+  const resolved = baseUrl || process.env[API_URL_ENV] || DEFAULT_API_BASE_URL
+  return resolved.replace(/\/+$/, '')
+}
 
 /**
  * Creates the Authorization header for API requests
@@ -18,78 +99,241 @@ export function createAuthHeader(apiKey: string): string {
   return `Basic ${encoded}`
 }
 
+/**
+ * Reads a non-2xx response and turns it into a descriptive error
+ *
+ * @param response - The failed response
+ * @param method - The HTTP method of the request
+ * @param endpoint - The API endpoint (relative to base URL)
+ * @param url - The full request URL
+ * @returns The error describing the failure
+ */
+async function createResponseError(
+  response: Response,
+  method: string,
+  endpoint: string,
+  url: string
+): Promise<ApiRequestError> {
+  let apiCode: string | undefined
+  let errorMessage = `API request failed: ${method} ${url} returned ${response.status} ${response.statusText}`
+
+  // Read the response body once as text
+  try {
+    const responseText = await response.text()
+    if (responseText) {
+      // Try to parse as JSON
+      try {
+        const errorData = JSON.parse(responseText) as ApiError
+        apiCode = errorData.code || undefined
+        if (errorData.message) {
+          errorMessage = `API Error (${errorData.code || response.status}): ${errorData.message}`
+        }
+      } catch {
+        // Not JSON, include the raw text
+        errorMessage += `\nResponse: ${responseText.substring(0, 500)}`
+      }
+    }
+  } catch {
+    // If we can't read the response, use the default message
+  }
+
+  return new ApiRequestError(errorMessage, {
+    status: response.status,
+    apiCode,
+    method,
+    endpoint
+  })
+}
+
+/**
+ * Parses a Retry-After header value
+ *
+ * @param value - The header value, either delay-seconds or an HTTP date
+ * @returns The delay in milliseconds, or undefined if absent or invalid
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined
+  }
+
+  const seconds = Number(value)
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return seconds * 1000
+  }
+
+  const date = Date.parse(value)
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now())
+  }
+
+  return undefined
+}
+
+/**
+ * Calculates the delay before the next attempt using exponential backoff
+ * with jitter, so that concurrent jobs do not retry in lockstep
+ *
+ * @param attempt - The attempt that just failed (1-based)
+ * @param policy - The retry policy
+ * @returns The delay in milliseconds
+ */
+export function calculateBackoff(attempt: number, policy: RetryPolicy): number {
+  const exponential = Math.min(
+    policy.maxDelayMs,
+    policy.initialDelayMs * 2 ** (attempt - 1)
+  )
+  return Math.round(exponential / 2 + (Math.random() * exponential) / 2)
+}
+
+/**
+ * Decides whether a failed request may be sent again
+ *
+ * A 429 means the request was rejected before being processed, so it is safe
+ * to retry for every method. Network errors and 5xx responses leave it unknown
+ * whether the server acted on the request, so they are only retried for
+ * idempotent methods.
+ *
+ * @param failure - The error of the failed attempt
+ * @param idempotent - Whether the request method is idempotent
+ * @returns True if the request should be retried
+ */
+function isRetryable(
+  failure: ApiRequestError | NetworkError,
+  idempotent: boolean
+): boolean {
+  if (failure instanceof NetworkError) {
+    return idempotent
+  }
+  if (failure.status === 429) {
+    return true
+  }
+  return idempotent && RETRYABLE_STATUSES.includes(failure.status)
+}
+
 /**
  * Makes an authenticated API request
+ * Transient failures are retried according to the retry policy
  *
  * @param endpoint - The API endpoint (relative to base URL)
  * @param apiKey - The API key for authentication
  * @param options - Additional fetch options
+ * @param apiOptions - API client options (base URL, retry policy, timeout)
  * @returns The response data
- * @throws Error if the request fails
+ * @throws ApiRequestError if the API responds with a non-2xx status
+ * @throws NetworkError if no response is received
+ * @throws The abort reason if the request is cancelled through its signal
  */
 async function makeRequest<T>(
   endpoint: string,
   apiKey: string,
-  options: RequestInit = {}
+  options: RequestInit = {},
+  apiOptions: ApiOptions = {}
 ): Promise<T> {
-  const url = `${API_BASE_URL}${endpoint}`
+  const url = `${resolveApiBaseUrl(apiOptions.baseUrl)}${endpoint}`
   const method = options.method || 'GET'
   const headers = {
     Authorization: createAuthHeader(apiKey),
     'Content-Type': 'application/json',
     ...options.headers
   }
+  const policy = apiOptions.retry || DEFAULT_RETRY_POLICY
+  const timeoutMs = apiOptions.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS
+  const { signal } = apiOptions
+  const idempotent = IDEMPOTENT_METHODS.includes(method)
+  let totalDelayMs = 0
 
-  let response: Response
-  try {
-    response = await fetch(url, {
-      ...options,
-      headers
-    })
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error)
-    throw new Error(
-      `Network request failed for ${method} ${url}: ${errorMessage}. ` +
-        `Please check your network connection and verify the API endpoint is accessible.`
+  for (let attempt = 1; ; attempt++) {
+    signal?.throwIfAborted()
+
+    const timeoutSignal = Number.isFinite(timeoutMs)
+      ? AbortSignal.timeout(timeoutMs)
+      : undefined
+    const signals = [signal, timeoutSignal].filter(
+      (s): s is AbortSignal => s !== undefined
     )
-  }
+    const response = await fetch(url, {
+      ...options,
+      headers,
+      signal: signals.length > 1 ? AbortSignal.any(signals) : signals[0]
+    }).catch((error: unknown) => {
+      // Cancellation by the caller is not a request failure
+      signal?.throwIfAborted()
 
-  // Handle non-2xx responses
-  if (!response.ok) {
-    let errorMessage = `API request failed: ${method} ${url} returned ${response.status} ${response.statusText}`
+      if (timeoutSignal?.aborted) {
+        return new RequestTimeoutError(
+          `Request ${method} ${url} timed out after ${timeoutMs / 1000}s.`,
+          { method, endpoint, timeoutMs }
+        )
+      }
 
-    // Read the response body once as text
-    try {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error)
+      return new NetworkError(
+        `Network request failed for ${method} ${url}: ${errorMessage}. ` +
+          `Please check your network connection and verify the API endpoint is accessible.`,
+        { method, endpoint },
+        { cause: error }
+      )
+    })
+
+    if (!(response instanceof NetworkError) && response.ok) {
+      // Read response body as text first
       const responseText = await response.text()
-      if (responseText) {
-        // Try to parse as JSON
-        try {
-          const errorData = JSON.parse(responseText) as ApiError
-          if (errorData.message) {
-            errorMessage = `API Error (${errorData.code || response.status}): ${errorData.message}`
-          }
-        } catch {
-          // Not JSON, include the raw text
-          errorMessage += `\nResponse: ${responseText.substring(0, 500)}`
-        }
+
+      // Handle empty responses (202/204 typically)
+      if (!responseText) {
+        return {} as T
       }
-    } catch {
-      // If we can't read the response, use the default message
+
+      // Parse as JSON
+      return JSON.parse(responseText) as T
     }
 
-    throw new Error(errorMessage)
-  }
+    const failure =
+      response instanceof NetworkError
+        ? response
+        : await createResponseError(response, method, endpoint, url)
+    const retryAfterMs =
+      response instanceof NetworkError
+        ? undefined
+        : parseRetryAfter(response.headers.get('Retry-After'))
+    failure.attempts = attempt
 
-  // Read response body as text first
-  const responseText = await response.text()
+    if (!isRetryable(failure, idempotent)) {
+      if (
+        !idempotent &&
+        (failure instanceof NetworkError || failure.status >= 500)
+      ) {
+        failure.message +=
+          ` The ${method} request was not retried because it may already ` +
+          `have been processed.`
+      }
+      if (attempt > 1) {
+        failure.message += ` (failed after ${attempt} attempts)`
+      }
+      throw failure
+    }
 
-  // Handle empty responses (202/204 typically)
-  if (!responseText) {
-    return {} as T
-  }
+    if (attempt >= policy.maxAttempts) {
+      failure.message +=
+        ` (gave up after ${attempt} attempts and ` +
+        `${(totalDelayMs / 1000).toFixed(1)}s of retry delays)`
+      throw failure
+    }
 
-  // Parse as JSON
-  return JSON.parse(responseText) as T
+    const delayMs = Math.min(
+      retryAfterMs ?? calculateBackoff(attempt, policy),
+      policy.maxDelayMs
+    )
+    totalDelayMs += delayMs
+    io.warning(
+      `${method} ${endpoint} failed (attempt ${attempt}/${policy.maxAttempts}): ` +
+        `${failure.message}; retrying in ${(delayMs / 1000).toFixed(1)}s` +
+        (retryAfterMs !== undefined ? ' as requested by Retry-After' : '') +
+        '...'
+    )
+    await sleep(delayMs, signal)
+  }
 }
 
 /**
@@ -99,20 +343,27 @@ async function makeRequest<T>(
  * @param serviceId - The service ID to fork
  * @param request - The fork request parameters
  * @param apiKey - The API key for authentication
+ * @param options - API client options
  * @returns The newly created service
  */
 export async function forkService(
   projectId: string,
   serviceId: string,
   request: ForkServiceRequest,
-  apiKey: string
+  apiKey: string,
+  options: ApiOptions = {}
 ): Promise<Service> {
   const endpoint = `/projects/${projectId}/services/${serviceId}/forkService`
 
-  return makeRequest<Service>(endpoint, apiKey, {
-    method: 'POST',
-    body: JSON.stringify(request)
-  })
+  return makeRequest<Service>(
+    endpoint,
+    apiKey,
+    {
+      method: 'POST',
+      body: JSON.stringify(request)
+    },
+    options
+  )
 }
 
 /**
@@ -121,18 +372,25 @@ export async function forkService(
  * @param projectId - The project ID
  * @param serviceId - The service ID to check
  * @param apiKey - The API key for authentication
+ * @param options - API client options
  * @returns The service details
  */
 export async function getService(
   projectId: string,
   serviceId: string,
-  apiKey: string
+  apiKey: string,
+  options: ApiOptions = {}
 ): Promise<Service> {
   const endpoint = `/projects/${projectId}/services/${serviceId}`
 
-  return makeRequest<Service>(endpoint, apiKey, {
-    method: 'GET'
-  })
+  return makeRequest<Service>(
+    endpoint,
+    apiKey,
+    {
+      method: 'GET'
+    },
+    options
+  )
 }
 
 /**
@@ -141,15 +399,131 @@ export async function getService(
  * @param projectId - The project ID
  * @param serviceId - The service ID to delete
  * @param apiKey - The API key for authentication
+ * @param options - API client options
  */
 export async function deleteService(
   projectId: string,
   serviceId: string,
-  apiKey: string
+  apiKey: string,
+  options: ApiOptions = {}
 ): Promise<void> {
   const endpoint = `/projects/${projectId}/services/${serviceId}`
 
-  await makeRequest<void>(endpoint, apiKey, {
-    method: 'DELETE'
-  })
+  await makeRequest<void>(
+    endpoint,
+    apiKey,
+    {
+      method: 'DELETE'
+    },
+    options
+  )
+}
+
+/**
+ * Pauses a service
+ * A paused service keeps its data but stops consuming compute
+ *
+ * @param projectId - The project ID
+ * @param serviceId - The service ID to pause
+ * @param apiKey - The API key for authentication
+ * @param options - API client options
+ * @returns The service details
+ */
+export async function pauseService(
+  projectId: string,
+  serviceId: string,
+  apiKey: string,
+  options: ApiOptions = {}
+): Promise<Service> {
+  const endpoint = `/projects/${projectId}/services/${serviceId}/stop`
+
+  return makeRequest<Service>(
+    endpoint,
+    apiKey,
+    {
+      method: 'POST'
+    },
+    options
+  )
+}
+
+/**
+ * Resumes a paused service
+ *
+ * @param projectId - The project ID
+ * @param serviceId - The service ID to resume
+ * @param apiKey - The API key for authentication
+ * @param options - API client options
+ * @returns The service details
+ */
+export async function resumeService(
+  projectId: string,
+  serviceId: string,
+  apiKey: string,
+  options: ApiOptions = {}
+): Promise<Service> {
+  const endpoint = `/projects/${projectId}/services/${serviceId}/start`
+
+  return makeRequest<Service>(
+    endpoint,
+    apiKey,
+    {
+      method: 'POST'
+    },
+    options
+  )
+}
+
+/**
+ * Lists the services of a project
+ *
+ * @param projectId - The project ID
+ * @param apiKey - The API key for authentication
+ * @param options - API client options
+ * @returns The services
+ */
+export async function listServices(
+  projectId: string,
+  apiKey: string,
+  options: ApiOptions = {}
+): Promise<Service[]> {
+  const endpoint = `/projects/${projectId}/services`
+
+  return makeRequest<Service[]>(
+    endpoint,
+    apiKey,
+    {
+      method: 'GET'
+    },
+    options
+  )
+}
+
+/**
+ * Sets the password of a service's tsdbadmin user
+ *
+ * @param projectId - The project ID
+ * @param serviceId - The service ID
+ * @param password - The new password
+ * @param apiKey - The API key for authentication
+ * @param options - API client options
+ */
+export async function updateServicePassword(
+  projectId: string,
+  serviceId: string,
+  password: string,
+  apiKey: string,
+  options: ApiOptions = {}
+): Promise<void> {
+  const endpoint = `/projects/${projectId}/services/${serviceId}/updatePassword`
+
+  await makeRequest<void>(
+    endpoint,
+    apiKey,
+    {
+      method: 'POST',
+      body: JSON.stringify({ password })
+    },
+    options
+  )
 }
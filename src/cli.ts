@@ -0,0 +1,545 @@
+/**
+ * The fork-service command line interface
+ *
+ * Runs the action outside of GitHub Actions, e.g. to reproduce a CI fork
+ * locally or to fork from another CI system. Options and environment variables
+ * stand in for the inputs of the action, and the outputs are printed as text or
+ * JSON. Logs go to stderr, so that stdout only contains the result.
+ */
+import {
+  deleteService,
+  getService,
+  listServices,
+  type ApiOptions
+} from './api.js'
+import { getApiKey } from './credentials.js'
+import { getErrorCode, InputError } from './errors.js'
+import { getApiOptions, getPositiveNumberInput } from './inputs.js'
+import { io, setIo, type Io } from './io.js'
+import { run } from './main.js'
+import {
+  formatTimeline,
+  waitForServiceDeleted,
+  waitForServiceReady
+} from './poll.js'
+import type { Service } from './types.js'
+
+/**
+ * Prefix of the environment variables that set options
+ */
+const ENV_PREFIX = 'TIGERDATA_'
+
+/**
+ * Options that can be set as environment variables, e.g. TIGERDATA_API_KEY
+ * Other options are only read from the command line, so that a variable
+ * such as TIGERDATA_NAME set for another tool cannot change the fork
+ */
+const ENV_OPTIONS = [
+  'api_key',
+  'api_key_file',
+  'api_public_key',
+  'api_secret_key',
+  'api_url',
+  'project_id',
+  'service_id'
+]
+
+/**
+ * Inputs of the post step, which the CLI does not run
+ */
+const CLEANUP_OPTIONS = ['cleanup', 'cleanup_action']
+
+/**
+ * Outputs of the action that hold JSON
+ */
+const JSON_OUTPUTS = [
+  'deleted',
+  'forks',
+  'fork_requests',
+  'services',
+  'status_timeline',
+  'masking_report',
+  'migrations_applied',
+  'swept'
+]
+
+const USAGE = `Usage: fork-service <command> [options]
+
+Commands:
+  fork                  Fork a service and wait until the fork is ready
+  status [service-id]   Show the status of a service
+  wait [service-id]     Wait until a service is ready
+  delete [service-id]   Delete a service
+  list                  List the services of the project
+
+Options:
+  --project-id <id>     The project ID
+  --service-id <id>     The service ID
+  --api-key <key>       A Tiger Data API key in format publicKey:secretKey
+  --api-key-file <path> A file containing the API key
+  --api-url <url>       Base URL of the Tiger Data API
+  --json                Print JSON instead of text
+  --verbose             Print debug logs
+  --help                Show this help
+
+fork accepts every input of the action as an option, e.g.
+  fork-service fork --fork-strategy now --name my-fork --probe
+except --cleanup and --cleanup-action: the fork is kept until it is deleted
+with the delete command.
+
+wait accepts --wait-timeout and --poll-interval, and delete accepts
+--wait-for-deletion and --deletion-timeout, in seconds.
+
+The credentials, --api-url, --project-id and --service-id can also be set as
+environment variables, e.g. TIGERDATA_API_KEY for --api-key.
+`
+
+/**
+ * Where the CLI writes its result and its logs
+ */
+export interface CliStreams {
+  stdout: { write(chunk: string): unknown }
+  stderr: { write(chunk: string): unknown }
+}
+
+/**
+ * Parsed command line
+ */
+interface CommandLine {
+  command: string
+  /** Values of the options, keyed by input name, e.g. project_id */
+  options: Map<string, string>
+  positional: string[]
+}
+
+/**
+ * Options that are flags, which never take the next argument as their value,
+ * so that e.g. status --json <service-id> keeps the service ID
+ */
+const FLAGS = new Set([
+  'json',
+  'verbose',
+  'help',
+  'probe',
+  'reuse',
+  'dry_run',
+  'export_env',
+  'pgpass',
+  'wait_for_deletion',
+  'pr_comment',
+  'pr_refresh',
+  'name_suffix',
+  'evict_oldest'
+])
+
+/**
+ * Parses the command line
+ * Options are written as --name value or --name=value; a flag, or an option
+ * without a value, is set to true, and --flag=false turns a flag off
+ *
+ * @param args - The arguments after the program name
+ * @returns The command, options and positional arguments
+ */
+function parseCommandLine(args: string[]): CommandLine {
+  const options = new Map<string, string>()
+  const positional: string[] = []
+
+  for (let index = 0; index < args.length; index++) {
+    const arg = args[index]
+    if (!arg.startsWith('--')) {
+      positional.push(arg)
+      continue
+    }
+    const separator = arg.indexOf('=')
+    const name = (separator === -1 ? arg.slice(2) : arg.slice(2, separator))
+      .replace(/-/g, '_')
+      .toLowerCase()
+    if (separator !== -1) {
+      options.set(name, arg.slice(separator + 1))
+    } else if (
+      !FLAGS.has(name) &&
+      index + 1 < args.length &&
+      !args[index + 1].startsWith('--')
+    ) {
+      options.set(name, args[++index])
+    } else {
+      options.set(name, 'true')
+    }
+  }
+
+  return { command: positional.shift() || '', options, positional }
+}
+
+/**
+ * Creates the runtime of the CLI
+ *
+ * @param options - The options from the command line
+ * @param env - The environment
+ * @param streams - Where logs are written
+ * @returns The runtime, the outputs set so far and whether the run failed
+ */
+function createCliIo(
+  options: Map<string, string>,
+  env: NodeJS.ProcessEnv,
+  streams: CliStreams
+): {
+  io: Io
+  outputs: Map<string, string>
+  used: Set<string>
+  failure: { message?: string }
+} {
+  const outputs = new Map<string, string>()
+  const state = new Map<string, string>()
+  const used = new Set<string>()
+  const failure: { message?: string } = {}
+  const verbose = options.get('verbose') === 'true'
+  const log = (message: string): void => {
+    streams.stderr.write(`${message}\n`)
+  }
+
+  return {
+    outputs,
+    used,
+    failure,
+    io: {
+      getInput: (name, inputOptions) => {
+        used.add(name)
+        const variable = ENV_OPTIONS.includes(name)
+          ? `${ENV_PREFIX}${name.toUpperCase()}`
+          : undefined
+        const value = (
+          options.get(name) ??
+          (variable && env[variable]) ??
+          ''
+        ).trim()
+        if (!value && inputOptions?.required) {
+          throw new InputError(
+            `Missing option --${name.replace(/_/g, '-')}${variable ? ` (or ${variable})` : ''}`
+          )
+        }
+        return value
+      },
+      setOutput: (name, value) => {
+        outputs.set(name, value)
+      },
+      // Secrets are printed on purpose, there is no log to protect
+      setSecret: () => undefined,
+      exportVariable: (name) => {
+        log(
+          `Warning: ${name} cannot be exported to the calling shell, use --env-file instead`
+        )
+      },
+      saveState: (name, value) => {
+        state.set(name, value)
+      },
+      getState: (name) => state.get(name) || '',
+      getIDToken: () =>
+        Promise.reject(
+          new InputError(
+            'oidc_token_url needs a GitHub OIDC token, which is only available in GitHub Actions'
+          )
+        ),
+      setFailed: (message) => {
+        failure.message = message
+      },
+      debug: (message) => {
+        if (verbose) {
+          log(`Debug: ${message}`)
+        }
+      },
+      info: log,
+      warning: (message) => log(`Warning: ${message}`),
+      startGroup: log,
+      endGroup: () => undefined,
+      // The result is printed instead
+      getSummary: () => undefined
+    }
+  }
+}
+
+/**
+ * Formats values as aligned name: value lines
+ *
+ * @param values - The values, undefined values are left out
+ * @returns The lines
+ */
+function formatValues(values: [string, unknown][]): string {
+  const defined = values.filter(([, value]) => value !== undefined)
+  const width = Math.max(...defined.map(([name]) => name.length)) + 1
+  return defined
+    .map(([name, value]) => `${`${name}:`.padEnd(width)} ${String(value)}\n`)
+    .join('')
+}
+
+/**
+ * Describes a service as name: value pairs, without its password
+ *
+ * @param service - The service
+ * @returns The pairs
+ */
+function describeService(service: Service): [string, unknown][] {
+  return [
+    ['service_id', service.service_id],
+    ['name', service.name],
+    ['status', service.status],
+    ['host', service.endpoint?.host],
+    ['port', service.endpoint?.port],
+    ['created', service.created],
+    ['forked_from', service.forked_from?.service_id]
+  ]
+}
+
+/**
+ * Removes the password from a service before printing it
+ *
+ * @param service - The service
+ * @returns The service without initial_password
+ */
+function withoutPassword(service: Service): Service {
+  const copy = { ...service }
+  delete copy.initial_password
+  return copy
+}
+
+/**
+ * Formats services as a table
+ *
+ * @param services - The services
+ * @returns The table, with a header row
+ */
+function formatServiceTable(services: Service[]): string {
+  const rows = [
+    ['SERVICE ID', 'NAME', 'STATUS', 'CREATED', 'FORKED FROM'],
+    ...services.map((service) => [
+      service.service_id,
+      service.name,
+      service.status,
+      service.created || '-',
+      service.forked_from?.service_id || '-'
+    ])
+  ]
+  const widths = rows[0].map((_, column) =>
+    Math.max(...rows.map((row) => row[column].length))
+  )
+  return rows
+    .map(
+      (row) =>
+        row
+          .map((cell, column) => cell.padEnd(widths[column]))
+          .join('  ')
+          .trimEnd() + '\n'
+    )
+    .join('')
+}
+
+/**
+ * Describes a failure in the JSON output, the same way for every command
+ *
+ * @param code - The error code, see the error_code output
+ * @param message - The error message
+ * @returns The error, to be printed as JSON
+ */
+function formatError(
+  code: string | undefined,
+  message: string
+): { error: { code?: string; message: string } } {
+  return { error: { code, message } }
+}
+
+/**
+ * Runs the fork command: the action itself, with the options as its inputs
+ *
+ * @param cli - The runtime of the CLI
+ * @param json - Whether to print JSON
+ * @param streams - Where the result is written
+ * @returns The exit code
+ */
+async function forkCommand(
+  cli: ReturnType<typeof createCliIo>,
+  options: Map<string, string>,
+  json: boolean,
+  streams: CliStreams
+): Promise<number> {
+  // Accepting them would suggest that the fork is cleaned up
+  for (const name of CLEANUP_OPTIONS) {
+    if (options.has(name)) {
+      cli.used.add(name)
+      throw new InputError(
+        `--${name.replace(/_/g, '-')} is not supported: the CLI has no post step, delete the fork with the delete command instead`
+      )
+    }
+  }
+
+  await run()
+
+  const outputs = [...cli.outputs.entries()]
+  if (json) {
+    // A failure is reported like in the other commands, next to the outputs
+    // that were set before it
+    const result: Record<string, unknown> = Object.fromEntries(
+      outputs
+        .filter(([name]) => name !== 'error_code')
+        .map(([name, value]) => [
+          name,
+          JSON_OUTPUTS.includes(name) ? JSON.parse(value) : value
+        ])
+    )
+    if (cli.failure.message !== undefined) {
+      Object.assign(
+        result,
+        formatError(cli.outputs.get('error_code'), cli.failure.message)
+      )
+    }
+    streams.stdout.write(`${JSON.stringify(result, null, 2)}\n`)
+  } else {
+    streams.stdout.write(
+      formatValues(outputs.filter(([name]) => !JSON_OUTPUTS.includes(name)))
+    )
+  }
+
+  if (cli.failure.message !== undefined) {
+    streams.stderr.write(`Error: ${cli.failure.message}\n`)
+    return 1
+  }
+  return 0
+}
+
+/**
+ * Runs the status, wait, delete and list commands
+ *
+ * @param command - The command
+ * @param positional - Positional arguments, e.g. the service ID
+ * @param json - Whether to print JSON
+ * @param streams - Where the result is written
+ * @returns The exit code
+ */
+async function serviceCommand(
+  command: string,
+  positional: string[],
+  json: boolean,
+  streams: CliStreams
+): Promise<number> {
+  const projectId = io.getInput('project_id', { required: true })
+  const apiKey = await getApiKey()
+  const apiOptions: ApiOptions = getApiOptions()
+  const write = (text: unknown): void => {
+    streams.stdout.write(
+      json ? `${JSON.stringify(text, null, 2)}\n` : String(text)
+    )
+  }
+
+  if (command === 'list') {
+    const services = await listServices(projectId, apiKey, apiOptions)
+    write(json ? services.map(withoutPassword) : formatServiceTable(services))
+    return 0
+  }
+
+  const serviceId =
+    positional[0] || io.getInput('service_id', { required: true })
+  switch (command) {
+    case 'status': {
+      const service = await getService(projectId, serviceId, apiKey, apiOptions)
+      write(
+        json ? withoutPassword(service) : formatValues(describeService(service))
+      )
+      return 0
+    }
+
+    case 'wait': {
+      const { service, timeline } = await waitForServiceReady(
+        projectId,
+        serviceId,
+        apiKey,
+        {
+          timeoutMs: getPositiveNumberInput('wait_timeout', 30 * 60) * 1000,
+          intervalMs: getPositiveNumberInput('poll_interval', 1) * 1000,
+          api: apiOptions
+        }
+      )
+      write(
+        json
+          ? { service: withoutPassword(service), timeline }
+          : formatValues(describeService(service)) +
+              `timeline:\n${formatTimeline(timeline)
+                .map((line) => `  ${line}\n`)
+                .join('')}`
+      )
+      return 0
+    }
+
+    case 'delete': {
+      await deleteService(projectId, serviceId, apiKey, apiOptions)
+      const verify = io.getInput('wait_for_deletion') === 'true'
+      if (verify) {
+        await waitForServiceDeleted(projectId, serviceId, apiKey, {
+          timeoutMs: getPositiveNumberInput('deletion_timeout', 300) * 1000,
+          intervalMs: getPositiveNumberInput('poll_interval', 1) * 1000,
+          api: apiOptions
+        })
+      }
+      write(
+        json
+          ? { service_id: serviceId, deleted: true, verified: verify }
+          : `${verify ? 'Deleted' : 'Requested deletion of'} service ${serviceId}\n`
+      )
+      return 0
+    }
+  }
+  throw new InputError(`Unknown command: ${command}`)
+}
+
+/**
+ * Runs the CLI
+ *
+ * @param args - The arguments after the program name
+ * @param env - The environment, e.g. for TIGERDATA_API_KEY
+ * @param streams - Where the result and the logs are written
+ * @returns The exit code: 0 on success, 1 on failure and 2 on a usage error
+ */
+export async function runCli(
+  args: string[],
+  env: NodeJS.ProcessEnv = process.env,
+  streams: CliStreams = { stdout: process.stdout, stderr: process.stderr }
+): Promise<number> {
+  const { command, options, positional } = parseCommandLine(args)
+  if (!command) {
+    streams.stderr.write(USAGE)
+    return 2
+  }
+  if (command === 'help' || options.has('help')) {
+    streams.stdout.write(USAGE)
+    return 0
+  }
+  if (!['fork', 'status', 'wait', 'delete', 'list'].includes(command)) {
+    streams.stderr.write(`Unknown command: ${command}\n\n${USAGE}`)
+    return 2
+  }
+
+  const json = options.get('json') === 'true'
+  const cli = createCliIo(options, env, streams)
+  cli.used.add('json').add('verbose')
+  const previous = setIo(cli.io)
+  try {
+    return command === 'fork'
+      ? await forkCommand(cli, options, json, streams)
+      : await serviceCommand(command, positional, json, streams)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    if (json) {
+      streams.stdout.write(
+        `${JSON.stringify(formatError(getErrorCode(error), message), null, 2)}\n`
+      )
+    }
+    streams.stderr.write(`Error: ${message}\n`)
+    return 1
+  } finally {
+    setIo(previous)
+    for (const name of options.keys()) {
+      if (!cli.used.has(name)) {
+        streams.stderr.write(
+          `Warning: the ${command} command does not use --${name.replace(/_/g, '-')}\n`
+        )
+      }
+    }
+  }
+}
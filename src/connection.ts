@@ -0,0 +1,208 @@
+/**
+ * Connection details for a forked service in the formats used by PostgreSQL
+ * clients: a connection URI, libpq environment variables, a dotenv file and a
+ * password file entry
+ */
+import { appendFile, chmod, mkdir, readFile } from 'node:fs/promises'
+import { isIP } from 'node:net'
+import { homedir } from 'node:os'
+import { dirname, join } from 'node:path'
+import pg from 'pg'
+import type { Service } from './types.js'
+
+/**
+ * Role the initial password belongs to
+ */
+export const DEFAULT_USER = 'tsdbadmin'
+
+/**
+ * Database created in every service
+ */
+export const DEFAULT_DATABASE = 'tsdb'
+
+/**
+ * Everything a client needs to connect to a service
+ */
+export interface ConnectionInfo {
+  host: string
+  port: number
+  user: string
+  password: string
+  database: string
+  sslmode: string
+}
+
+/**
+ * Returns the connection details of a service
+ *
+ * @param service - The service as returned when it was created
+ * @returns The connection details, or undefined if the service has no
+ *   endpoint or its password is not known
+ */
+export function getConnectionInfo(
+  service: Service
+): ConnectionInfo | undefined {
+  if (!service.endpoint || !service.initial_password) {
+    return undefined
+  }
+  return {
+    host: service.endpoint.host,
+    port: service.endpoint.port,
+    user: DEFAULT_USER,
+    password: service.initial_password,
+    database: DEFAULT_DATABASE,
+    sslmode: 'require'
+  }
+}
+
+/**
+ * Builds a postgresql:// connection URI
+ *
+ * @param info - The connection details
+ * @returns The connection URI, with the user, password and database encoded
+ */
+export function buildConnectionString(info: ConnectionInfo): string {
+  const user = encodeURIComponent(info.user)
+  const password = encodeURIComponent(info.password)
+  const database = encodeURIComponent(info.database)
+  return `postgresql://${user}:${password}@${info.host}:${info.port}/${database}?sslmode=${info.sslmode}`
+}
+
+/**
+ * Creates a database client for the connection details
+ * Like libpq's sslmode=require, the connection is encrypted without verifying
+ * the server certificate
+ *
+ * @param info - The connection details
+ * @param address - The address to connect to, if already resolved
+ * @returns The client, not yet connected
+ */
+export function createClient(
+  info: ConnectionInfo,
+  address: string = info.host
+): pg.Client {
+  const client = new pg.Client({
+    host: address,
+    port: info.port,
+    user: info.user,
+    password: info.password,
+    database: info.database,
+    ssl:
+      info.sslmode === 'disable'
+        ? false
+        : {
+            rejectUnauthorized: false,
+            // SNI does not allow IP addresses
+            ...(isIP(info.host) ? {} : { servername: info.host })
+          }
+  })
+  client.on('error', () => {
+    // Errors of a failed connection are reported by connect() and query()
+  })
+  return client
+}
+
+/**
+ * Returns the libpq environment variables for the connection details
+ *
+ * @param info - The connection details
+ * @returns The variables, keyed by name
+ */
+export function getLibpqEnvironment(
+  info: ConnectionInfo
+): Record<string, string> {
+  return {
+    PGHOST: info.host,
+    PGPORT: String(info.port),
+    PGUSER: info.user,
+    PGPASSWORD: info.password,
+    PGDATABASE: info.database,
+    PGSSLMODE: info.sslmode
+  }
+}
+
+/**
+ * Quotes a value for a dotenv file
+ * Single quoted values are taken literally by dotenv parsers
+ *
+ * @param value - The value to quote
+ * @returns The quoted value
+ */
+function quoteDotenvValue(value: string): string {
+  return value.includes("'")
+    ? `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+    : `'${value}'`
+}
+
+/**
+ * Appends text to a file, starting on a new line and creating the file with
+ * owner-only permissions if it does not exist
+ *
+ * @param path - The file to append to
+ * @param text - The text to append, ending with a newline
+ */
+async function appendLines(path: string, text: string): Promise<void> {
+  const existing = await readFile(path, 'utf8').catch(() => '')
+  const separator = existing && !existing.endsWith('\n') ? '\n' : ''
+  await mkdir(dirname(path), { recursive: true })
+  await appendFile(path, separator + text, { mode: 0o600 })
+}
+
+/**
+ * Appends DATABASE_URL and the libpq variables to a dotenv file
+ * Existing entries are kept; dotenv parsers use the last value of a variable
+ *
+ * @param path - The dotenv file
+ * @param info - The connection details
+ */
+export async function writeEnvFile(
+  path: string,
+  info: ConnectionInfo
+): Promise<void> {
+  const variables = {
+    DATABASE_URL: buildConnectionString(info),
+    ...getLibpqEnvironment(info)
+  }
+  const lines = Object.entries(variables).map(
+    ([name, value]) => `${name}=${quoteDotenvValue(value)}\n`
+  )
+  await appendLines(path, lines.join(''))
+}
+
+/**
+ * Escapes a field of a password file entry
+ *
+ * @param value - The field value
+ * @returns The escaped value
+ */
+function escapePgpassField(value: string): string {
+  return value.replace(/[\\:]/g, '\\$&')
+}
+
+/**
+ * Appends an entry for the connection to a PostgreSQL password file
+ * libpq ignores the file unless only its owner can read it, so its
+ * permissions are restricted
+ *
+ * @param info - The connection details
+ * @param path - The password file (default: PGPASSFILE, then ~/.pgpass, as
+ *   used by libpq)
+ * @returns The path of the password file
+ */
+export async function writePgpass(
+  info: ConnectionInfo,
+  path: string = process.env.PGPASSFILE || join(homedir(), '.pgpass')
+): Promise<string> {
+  const entry = [
+    info.host,
+    String(info.port),
+    info.database,
+    info.user,
+    info.password
+  ]
+    .map(escapePgpassField)
+    .join(':')
+  await appendLines(path, `${entry}\n`)
+  await chmod(path, 0o600)
+  return path
+}
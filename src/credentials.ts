@@ -0,0 +1,174 @@
+/**
+ * Sources of the Tiger Data API key
+ *
+ * The key is read again by the post step instead of being saved in the state of
+ * the action, where it would be written to disk on the runner. Every value
+ * that is part of a credential is masked in the logs.
+ */
+import { readFile } from 'node:fs/promises'
+import { CredentialsError, InputError } from './errors.js'
+import { io } from './io.js'
+
+/**
+ * Audience of the GitHub OIDC token when oidc_audience is not set
+ */
+export const DEFAULT_OIDC_AUDIENCE = 'tigerdata'
+
+/**
+ * Environment variable holding the API key when no input is set
+ */
+const API_KEY_VARIABLE = 'TIGERDATA_API_KEY'
+
+/**
+ * Joins and masks the parts of an API key
+ *
+ * @param publicKey - The public key
+ * @param secretKey - The secret key
+ * @returns The API key in format publicKey:secretKey
+ */
+function toApiKey(publicKey: string, secretKey: string): string {
+  const apiKey = `${publicKey}:${secretKey}`
+  io.setSecret(secretKey)
+  io.setSecret(apiKey)
+  return apiKey
+}
+
+/**
+ * Reads the API key from a file
+ *
+ * @param path - The file, containing publicKey:secretKey
+ * @returns The API key
+ * @throws InputError if the file cannot be read or is empty
+ */
+async function readApiKeyFile(path: string): Promise<string> {
+  let apiKey: string
+  try {
+    apiKey = (await readFile(path, 'utf8')).trim()
+  } catch (error) {
+    throw new InputError(
+      `Invalid api_key_file: ${path} could not be read (${error instanceof Error ? error.message : String(error)})`
+    )
+  }
+  if (!apiKey) {
+    throw new InputError(`Invalid api_key_file: ${path} is empty`)
+  }
+  io.setSecret(apiKey)
+  return apiKey
+}
+
+/**
+ * Exchanges a GitHub OIDC token for an API key
+ * The token broker verifies the claims of the token, e.g. the repository,
+ * and responds with { "public_key", "secret_key" }
+ *
+ * @param url - The token broker
+ * @param audience - The audience of the OIDC token
+ * @returns The API key
+ * @throws CredentialsError if no token is issued or the exchange fails
+ */
+async function exchangeOidcToken(
+  url: string,
+  audience: string
+): Promise<string> {
+  let token: string
+  try {
+    token = await io.getIDToken(audience)
+  } catch (error) {
+    throw new CredentialsError(
+      `Unable to get a GitHub OIDC token: ${error instanceof Error ? error.message : String(error)}. Make sure the job has the "id-token: write" permission`
+    )
+  }
+  io.setSecret(token)
+
+  let response: Response
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { Accept: 'application/json', Authorization: `Bearer ${token}` },
+      signal: AbortSignal.timeout(30 * 1000)
+    })
+  } catch (error) {
+    throw new CredentialsError(
+      `Unable to exchange the OIDC token at ${url}: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+  if (!response.ok) {
+    throw new CredentialsError(
+      `Unable to exchange the OIDC token at ${url}: ${response.status} ${response.statusText}`
+    )
+  }
+
+  const body = (await response.json().catch(() => ({}))) as {
+    public_key?: unknown
+    secret_key?: unknown
+  }
+  if (
+    typeof body.public_key !== 'string' ||
+    typeof body.secret_key !== 'string'
+  ) {
+    throw new CredentialsError(
+      `Unable to exchange the OIDC token at ${url}: the response has no public_key and secret_key`
+    )
+  }
+  return toApiKey(body.public_key, body.secret_key)
+}
+
+/**
+ * Gets the API key from the source that is configured
+ *
+ * The sources are, in this order:
+ * - the api_key input, in format publicKey:secretKey
+ * - the api_public_key and api_secret_key inputs
+ * - the api_key_file input, a file containing publicKey:secretKey
+ * - the oidc_token_url input, a token broker exchanging a GitHub OIDC token
+ * - the TIGERDATA_API_KEY environment variable
+ *
+ * @returns The API key in format publicKey:secretKey
+ * @throws InputError if no source or more than one source is configured
+ */
+export async function getApiKey(): Promise<string> {
+  const apiKey = io.getInput('api_key', { required: false })
+  const publicKey = io.getInput('api_public_key', { required: false })
+  const secretKey = io.getInput('api_secret_key', { required: false })
+  const file = io.getInput('api_key_file', { required: false })
+  const oidcUrl = io.getInput('oidc_token_url', { required: false })
+
+  const sources = [apiKey, publicKey || secretKey, file, oidcUrl].filter(
+    Boolean
+  )
+  if (sources.length > 1) {
+    throw new InputError(
+      'Only one of api_key, api_public_key and api_secret_key, api_key_file or oidc_token_url can be set'
+    )
+  }
+
+  if (apiKey) {
+    io.setSecret(apiKey)
+    return apiKey
+  }
+  if (publicKey || secretKey) {
+    if (!publicKey || !secretKey) {
+      throw new InputError(
+        'api_public_key and api_secret_key must be set together'
+      )
+    }
+    return toApiKey(publicKey, secretKey)
+  }
+  if (file) {
+    return readApiKeyFile(file)
+  }
+  if (oidcUrl) {
+    return exchangeOidcToken(
+      oidcUrl,
+      io.getInput('oidc_audience', { required: false }) || DEFAULT_OIDC_AUDIENCE
+    )
+  }
+
+  const fromEnvironment = process.env[API_KEY_VARIABLE]
+  if (fromEnvironment) {
+    io.setSecret(fromEnvironment)
+    return fromEnvironment
+  }
+  // Fails with the usual message for a missing input
+  return io.getInput('api_key', { required: true })
+}
@@ -0,0 +1,265 @@
+/**
+ * Error types raised by the action
+ * Callers branch on these classes instead of matching error messages
+ */
+import type { AppliedFile } from './migrations.js'
+import type { Service } from './types.js'
+
+/**
+ * Base class for all errors raised by the action
+ * The code is exposed as the error_code output for downstream steps
+ */
+export class ForkServiceError extends Error {
+  readonly code: string
+
+  constructor(message: string, code: string, options?: ErrorOptions) {
+    super(message, options)
+    this.name = new.target.name
+    this.code = code
+  }
+}
+
+/**
+ * An action input is missing or invalid
+ */
+export class InputError extends ForkServiceError {
+  constructor(message: string) {
+    super(message, 'INVALID_INPUT')
+  }
+}
+
+/**
+ * The API key could not be obtained from its source, e.g. the OIDC token
+ * exchange failed
+ */
+export class CredentialsError extends ForkServiceError {
+  constructor(message: string) {
+    super(message, 'CREDENTIALS_UNAVAILABLE')
+  }
+}
+
+/**
+ * Guidance appended to API errors that retrying cannot fix
+ */
+const STATUS_GUIDANCE: Record<number, string> = {
+  401: 'Check that api_key is a valid Tiger Data API key in format publicKey:secretKey.',
+  403: 'Check that the API key belongs to the project and is allowed to manage its services.',
+  404: 'Check that project_id and service_id refer to an existing service.'
+}
+
+/**
+ * The API responded with a non-2xx status
+ */
+export class ApiRequestError extends ForkServiceError {
+  /** HTTP status of the response */
+  readonly status: number
+  /** Error code from the API response body, if any */
+  readonly apiCode?: string
+  /** HTTP method of the request */
+  readonly method: string
+  /** Endpoint of the request, relative to the API base URL */
+  readonly endpoint: string
+  /** Number of attempts made before giving up */
+  attempts = 1
+
+  constructor(
+    message: string,
+    details: {
+      status: number
+      apiCode?: string
+      method: string
+      endpoint: string
+    }
+  ) {
+    const guidance = STATUS_GUIDANCE[details.status]
+    super(
+      guidance ? `${message}. ${guidance}` : message,
+      details.apiCode || `HTTP_${details.status}`
+    )
+    this.status = details.status
+    this.apiCode = details.apiCode
+    this.method = details.method
+    this.endpoint = details.endpoint
+  }
+
+  /**
+   * Whether the failure is expected to go away when the request is repeated
+   * (rate limiting and server-side errors)
+   */
+  get transient(): boolean {
+    return this.status === 429 || this.status >= 500
+  }
+}
+
+/**
+ * The request did not receive a response
+ */
+export class NetworkError extends ForkServiceError {
+  /** HTTP method of the request */
+  readonly method: string
+  /** Endpoint of the request, relative to the API base URL */
+  readonly endpoint: string
+  /** Number of attempts made before giving up */
+  attempts = 1
+
+  constructor(
+    message: string,
+    details: { method: string; endpoint: string },
+    options?: ErrorOptions,
+    code = 'NETWORK_ERROR'
+  ) {
+    super(message, code, options)
+    this.method = details.method
+    this.endpoint = details.endpoint
+  }
+}
+
+/**
+ * A single request did not receive a response within the request timeout
+ */
+export class RequestTimeoutError extends NetworkError {
+  /** The request timeout in milliseconds */
+  readonly timeoutMs: number
+
+  constructor(
+    message: string,
+    details: { method: string; endpoint: string; timeoutMs: number }
+  ) {
+    super(message, details, undefined, 'REQUEST_TIMEOUT')
+    this.timeoutMs = details.timeoutMs
+  }
+}
+
+/**
+ * An operation did not complete within its time limit
+ */
+export class TimeoutError extends ForkServiceError {
+  /** The time limit that was exceeded in milliseconds */
+  readonly timeoutMs: number
+
+  constructor(message: string, timeoutMs: number) {
+    super(message, 'TIMEOUT')
+    this.timeoutMs = timeoutMs
+  }
+}
+
+/**
+ * A service entered a state from which it will not become ready
+ */
+export class TerminalStateError extends ForkServiceError {
+  /** The service as last reported by the API */
+  readonly service: Service
+
+  constructor(service: Service) {
+    super(
+      `Service ${service.service_id} entered terminal state: ${service.status}`,
+      'TERMINAL_STATE'
+    )
+    this.service = service
+  }
+}
+
+/**
+ * The forked service could not be connected to although the API reports it as
+ * ready
+ */
+export class ConnectivityError extends ForkServiceError {
+  /** The layer of the connection that failed last */
+  readonly layer: string
+
+  constructor(message: string, layer: string, options?: ErrorOptions) {
+    super(message, 'CONNECTIVITY', options)
+    this.layer = layer
+  }
+}
+
+/**
+ * A SQL file could not be applied to the forked service
+ */
+export class MigrationError extends ForkServiceError {
+  /** The file that failed, if the failure is specific to one */
+  readonly file?: string
+  /** Files applied before the failure, with how long each took */
+  readonly applied: AppliedFile[]
+
+  constructor(
+    message: string,
+    details: { file?: string; applied: AppliedFile[] },
+    options?: ErrorOptions
+  ) {
+    super(message, 'MIGRATION_FAILED', options)
+    this.file = details.file
+    this.applied = details.applied
+  }
+}
+
+/**
+ * Masking rules could not be applied to the forked service
+ */
+export class MaskingError extends ForkServiceError {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, 'MASKING_FAILED', options)
+  }
+}
+
+/**
+ * Some stale forks could not be swept
+ */
+export class SweepError extends ForkServiceError {
+  /** IDs of the services that could not be swept */
+  readonly serviceIds: string[]
+
+  constructor(message: string, serviceIds: string[]) {
+    super(message, 'SWEEP_FAILED')
+    this.serviceIds = serviceIds
+  }
+}
+
+/**
+ * The fork request does not comply with the fork policy of the repository
+ */
+export class PolicyError extends ForkServiceError {
+  /** The rules the request violates */
+  readonly violations: string[]
+
+  constructor(message: string, violations: string[]) {
+    super(message, 'POLICY_VIOLATION')
+    this.violations = violations
+  }
+}
+
+/**
+ * No fork slot became free before the queue timeout
+ */
+export class ConcurrencyLimitError extends ForkServiceError {
+  /** IDs of the forks occupying the slots */
+  readonly serviceIds: string[]
+
+  constructor(message: string, serviceIds: string[]) {
+    super(message, 'CONCURRENCY_LIMIT')
+    this.serviceIds = serviceIds
+  }
+}
+
+/**
+ * The run was cancelled, e.g. because the workflow run was cancelled
+ */
+export class CancelledError extends ForkServiceError {
+  /** The signal that cancelled the run */
+  readonly signal: string
+
+  constructor(signal: string) {
+    super(`Operation cancelled by ${signal}`, 'CANCELLED')
+    this.signal = signal
+  }
+}
+
+/**
+ * Returns the error code to report for any thrown value
+ *
+ * @param error - The thrown value
+ * @returns The error code
+ */
+export function getErrorCode(error: unknown): string {
+  return error instanceof ForkServiceError ? error.code : 'UNEXPECTED_ERROR'
+}
@@ -0,0 +1,9 @@
+/**
+ * Standalone entrypoint for the fork-service command line interface.
+ */
+import { runCli } from './cli.js'
+
+/* istanbul ignore next */
+runCli(process.argv.slice(2)).then((code) => {
+  process.exitCode = code
+})
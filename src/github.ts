@@ -0,0 +1,171 @@
+/**
+ * Minimal client for the GitHub REST API
+ */
+import { readFile } from 'node:fs/promises'
+
+/**
+ * Step of a workflow job as returned by the GitHub API
+ */
+interface WorkflowStep {
+  name: string
+  status: string
+  conclusion: string | null
+}
+
+/**
+ * Workflow job as returned by the GitHub API
+ */
+interface WorkflowJob {
+  name: string
+  status: string
+  runner_name: string | null
+  steps?: WorkflowStep[]
+}
+
+/**
+ * Outcome of the current job as far as it can be determined
+ */
+export interface JobOutcome {
+  outcome: 'success' | 'failure' | 'unknown'
+  /** Why the outcome was determined this way, for logging */
+  reason: string
+}
+
+/**
+ * Makes an authenticated request to the GitHub REST API
+ *
+ * @param path - The API path, e.g. /repos/owner/repo
+ * @param token - The GitHub token
+ * @param options - Additional fetch options
+ * @returns The response data
+ * @throws Error if the request fails
+ */
+export async function githubRequest<T>(
+  path: string,
+  token: string,
+  options: RequestInit = {}
+): Promise<T> {
+  const baseUrl = process.env.GITHUB_API_URL || 'https://api.github.com'
+  const method = options.method || 'GET'
+  const response = await fetch(`${baseUrl}${path}`, {
+    ...options,
+    headers: {
+      Accept: 'application/vnd.github+json',
+      Authorization: `Bearer ${token}`,
+      'Content-Type': 'application/json',
+      'X-GitHub-Api-Version': '2022-11-28',
+      ...options.headers
+    }
+  })
+
+  if (!response.ok) {
+    const responseText = await response.text().catch(() => '')
+    throw new Error(
+      `GitHub API request failed: ${method} ${path} returned ${response.status} ${response.statusText}` +
+        (responseText ? `\nResponse: ${responseText.substring(0, 500)}` : '')
+    )
+  }
+
+  const responseText = await response.text()
+  return (responseText ? JSON.parse(responseText) : {}) as T
+}
+
+/**
+ * Determines whether the current job has failed so far
+ *
+ * The job is looked up among the jobs of the current run attempt by the name
+ * of the runner executing it. This requires the `actions: read` permission.
+ *
+ * @param token - The GitHub token
+ * @returns The job outcome and the reason for it
+ */
+export async function getJobOutcome(token: string): Promise<JobOutcome> {
+  const {
+    GITHUB_REPOSITORY: repository,
+    GITHUB_RUN_ID: runId,
+    GITHUB_RUN_ATTEMPT: runAttempt = '1',
+    RUNNER_NAME: runnerName
+  } = process.env
+
+  if (!token) {
+    return { outcome: 'unknown', reason: 'no github_token is available' }
+  }
+  if (!repository || !runId || !runnerName) {
+    return {
+      outcome: 'unknown',
+      reason: 'not running in a GitHub Actions workflow'
+    }
+  }
+
+  let jobs: WorkflowJob[]
+  try {
+    const response = await githubRequest<{ jobs: WorkflowJob[] }>(
+      `/repos/${repository}/actions/runs/${runId}/attempts/${runAttempt}/jobs?per_page=100`,
+      token
+    )
+    jobs = response.jobs
+  } catch (error) {
+    return {
+      outcome: 'unknown',
+      reason: `the jobs of this run could not be listed (${error instanceof Error ? error.message : String(error)}). Make sure the token has the "actions: read" permission`
+    }
+  }
+
+  const job = jobs.find(
+    (j) => j.runner_name === runnerName && j.status === 'in_progress'
+  )
+  if (!job) {
+    return {
+      outcome: 'unknown',
+      reason: `no running job was found for runner ${runnerName}`
+    }
+  }
+
+  const failedStep = job.steps?.find((step) => step.conclusion === 'failure')
+  if (failedStep) {
+    return {
+      outcome: 'failure',
+      reason: `step "${failedStep.name}" of job "${job.name}" failed`
+    }
+  }
+  return {
+    outcome: 'success',
+    reason: `no step of job "${job.name}" has failed`
+  }
+}
+
+/**
+ * Reads the payload of the event that triggered the workflow
+ *
+ * @returns The payload, or an empty object outside of GitHub Actions
+ */
+export async function getEventPayload(): Promise<Record<string, unknown>> {
+  const eventPath = process.env.GITHUB_EVENT_PATH
+  if (!eventPath) {
+    return {}
+  }
+  return JSON.parse(await readFile(eventPath, 'utf8'))
+}
+
+/**
+ * Looks up the time a commit was made
+ *
+ * @param ref - The SHA of the commit, or a branch or tag name
+ * @param token - The GitHub token
+ * @returns The committer date as an ISO 8601 timestamp
+ * @throws Error if not running in a GitHub Actions workflow or the commit is
+ * not found
+ */
+export async function getCommitTime(
+  ref: string,
+  token: string
+): Promise<string> {
+  const repository = process.env.GITHUB_REPOSITORY
+  if (!repository) {
+    throw new Error('not running in a GitHub Actions workflow')
+  }
+  const commit = await githubRequest<{
+    commit: { committer: { date: string } }
+  }>(`/repos/${repository}/commits/${encodeURIComponent(ref)}`, token)
+  return commit.commit.committer.date
+}
@@ -0,0 +1,133 @@
+/**
+ * Helpers for reading and validating action inputs
+ */
+import {
+  DEFAULT_REQUEST_TIMEOUT_MS,
+  DEFAULT_RETRY_POLICY,
+  resolveApiBaseUrl,
+  type ApiOptions
+} from './api.js'
+import { io } from './io.js'
+import { InputError } from './errors.js'
+import { parseDuration } from './time.js'
+
+/**
+ * Reads an optional numeric input that must be greater than zero
+ *
+ * @param name - The input name
+ * @param defaultValue - The value to use when the input is empty
+ * @param integer - Whether the value must be a whole number
+ * @returns The parsed value
+ * @throws InputError if the value is not a positive number
+ */
+export function getPositiveNumberInput(
+  name: string,
+  defaultValue: number,
+  integer = false
+): number {
+  const value = io.getInput(name, { required: false })
+  if (!value) {
+    return defaultValue
+  }
+
+  const parsed = Number(value)
+  if (!(parsed > 0) || (integer && !Number.isInteger(parsed))) {
+    throw new InputError(
+      `Invalid ${name}: ${value}. Must be a positive ${integer ? 'integer' : 'number'}`
+    )
+  }
+  return parsed
+}
+
+/**
+ * Reads an optional duration input such as 90m, 24h or 7d
+ *
+ * @param name - The input name
+ * @param defaultValue - The value to use when the input is empty
+ * @returns The duration in milliseconds
+ * @throws InputError if the value is not a valid duration
+ */
+export function getDurationInput(name: string, defaultValue: string): number {
+  const value = io.getInput(name, { required: false }) || defaultValue
+  const duration = parseDuration(value)
+  if (duration === undefined) {
+    throw new InputError(
+      `Invalid ${name}: ${value}. Must be a positive number followed by s, m, h or d, e.g. 24h`
+    )
+  }
+  return duration
+}
+
+/**
+ * A parent service and the alias under which its fork is reported
+ */
+export interface ParentService {
+  alias: string
+  serviceId: string
+}
+
+/**
+ * Reads the service_id input, a single service ID or a list of them (one per
+ * line or comma-separated), each optionally prefixed with an alias, e.g.
+ * oltp=svc-123
+ *
+ * @param required - Whether at least one service ID is required
+ * @returns The services in the given order, aliased by their ID by default
+ * @throws InputError if an alias is invalid or used twice
+ */
+export function getParentServicesInput(required: boolean): ParentService[] {
+  const parents = io
+    .getInput('service_id', { required })
+    .split(/[\n,]/)
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const separator = entry.indexOf('=')
+      const parent =
+        separator === -1
+          ? { alias: entry, serviceId: entry }
+          : {
+              alias: entry.slice(0, separator).trim(),
+              serviceId: entry.slice(separator + 1).trim()
+            }
+      if (!/^[\w-]+$/.test(parent.alias) || !parent.serviceId) {
+        throw new InputError(
+          `Invalid service_id: ${entry}. Must be a service ID, optionally prefixed with an alias of letters, digits, _ and -, e.g. oltp=svc-123`
+        )
+      }
+      return parent
+    })
+
+  for (const [index, parent] of parents.entries()) {
+    if (parents.findIndex((other) => other.alias === parent.alias) < index) {
+      throw new InputError(
+        `Invalid service_id: the alias ${parent.alias} is used more than once`
+      )
+    }
+  }
+  return parents
+}
+
+/**
+ * Reads the inputs configuring the API client
+ *
+ * @returns The API client options
+ */
+export function getApiOptions(): ApiOptions & { baseUrl: string } {
+  return {
+    baseUrl: resolveApiBaseUrl(io.getInput('api_url', { required: false })),
+    retry: {
+      ...DEFAULT_RETRY_POLICY,
+      maxAttempts: getPositiveNumberInput(
+        'retry_attempts',
+        DEFAULT_RETRY_POLICY.maxAttempts,
+        true
+      )
+    },
+    timeoutMs:
+      getPositiveNumberInput(
+        'request_timeout',
+        DEFAULT_REQUEST_TIMEOUT_MS / 1000
+      ) * 1000
+  }
+}
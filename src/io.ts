@@ -0,0 +1,72 @@
+/**
+ * Input, output and logging shared by the action and the CLI
+ *
+ * The modules of the action read inputs, set outputs and log through `io`
+ * instead of calling @actions/core directly, so that the CLI can run them
+ * outside of GitHub Actions.
+ */
+import * as core from '@actions/core'
+
+/**
+ * Where inputs come from and where outputs, state and logs go
+ */
+export interface Io {
+  /** Reads an input, or an empty string if it is not set */
+  getInput(name: string, options?: { required?: boolean }): string
+  setOutput(name: string, value: string): void
+  /** Registers a value that must not appear in logs */
+  setSecret(secret: string): void
+  /** Makes an environment variable available to later steps */
+  exportVariable(name: string, value: string): void
+  /** Saves a value for the post step */
+  saveState(name: string, value: string): void
+  getState(name: string): string
+  /** Requests a GitHub OIDC token for the audience */
+  getIDToken(audience: string): Promise<string>
+  /** Reports the failure of the run */
+  setFailed(message: string): void
+  debug(message: string): void
+  info(message: string): void
+  warning(message: string): void
+  startGroup(name: string): void
+  endGroup(): void
+  /** The job summary, or undefined where there is none, e.g. in the CLI */
+  getSummary(): typeof core.summary | undefined
+}
+
+/**
+ * The GitHub Actions runtime
+ */
+export const actionIo: Io = {
+  getInput: (name, options) => core.getInput(name, options),
+  setOutput: (name, value) => core.setOutput(name, value),
+  setSecret: (secret) => core.setSecret(secret),
+  exportVariable: (name, value) => core.exportVariable(name, value),
+  saveState: (name, value) => core.saveState(name, value),
+  getState: (name) => core.getState(name),
+  getIDToken: (audience) => core.getIDToken(audience),
+  setFailed: (message) => core.setFailed(message),
+  debug: (message) => core.debug(message),
+  info: (message) => core.info(message),
+  warning: (message) => core.warning(message),
+  startGroup: (name) => core.startGroup(name),
+  endGroup: () => core.endGroup(),
+  getSummary: () => core.summary
+}
+
+/**
+ * The current runtime, the GitHub Actions runtime unless replaced by setIo
+ */
+export let io: Io = actionIo
+
+/**
+ * Replaces the runtime
+ *
+ * @param value - The new runtime
+ * @returns The previous runtime, to restore it
+ */
+export function setIo(value: Io): Io {
+  const previous = io
+  io = value
+  return previous
+}
@@ -1,7 +1,78 @@
-import * as core from '@actions/core'
-import { forkService, deleteService } from './api.js'
-import { waitForServiceReady } from './poll.js'
-import type { ForkStrategy, ForkServiceRequest } from './types.js'
+import { io } from './io.js'
+import {
+  forkService,
+  deleteService,
+  pauseService,
+  resumeService,
+  listServices,
+  updateServicePassword,
+  type ApiOptions
+} from './api.js'
+import {
+  buildConnectionString,
+  getConnectionInfo,
+  type ConnectionInfo,
+  getLibpqEnvironment,
+  writeEnvFile,
+  writePgpass
+} from './connection.js'
+import { getApiKey } from './credentials.js'
+import {
+  ApiRequestError,
+  CancelledError,
+  getErrorCode,
+  InputError,
+  MaskingError,
+  MigrationError,
+  PolicyError,
+  SweepError
+} from './errors.js'
+import { getJobOutcome } from './github.js'
+import {
+  getApiOptions,
+  getDurationInput,
+  getParentServicesInput,
+  getPositiveNumberInput,
+  type ParentService
+} from './inputs.js'
+import { applyMaskingRules, loadMaskingRules } from './masking.js'
+import { applySqlFiles, resolveSqlFiles } from './migrations.js'
+import {
+  addRandomSuffix,
+  avoidNameCollision,
+  getNameContext,
+  resolveNameTemplate,
+  templateToPattern,
+  type NameCollision
+} from './naming.js'
+import { checkPolicy, loadPolicy } from './policy.js'
+import { waitForForkSlot, type ConcurrencyOptions } from './queue.js'
+import { probeConnection } from './probe.js'
+import {
+  formatForksComment,
+  getPullRequestEvent,
+  upsertPullRequestComment,
+  type PullRequestEvent
+} from './pull-request.js'
+import { resolveTargetTime } from './target-time.js'
+import {
+  writeCleanupSummary,
+  writeForkSummary,
+  writeSweepSummary,
+  type ForkSummary,
+  type SummarizedFork
+} from './summary.js'
+import {
+  waitForServiceDeleted,
+  waitForServicePaused,
+  waitForServiceReady,
+  type WaitOptions
+} from './poll.js'
+import { findReusableFork, generatePassword } from './reuse.js'
+import { sweepForks, type SweepCriteria } from './sweep.js'
+import { formatDuration } from './time.js'
+import type { ForkStrategy, ForkServiceRequest, Service } from './types.js'
+import { validateForkRequest } from './validation.js'
 
 /**
  * Maps the user-friendly forking strategy from action.yml to the API enum
@@ -18,30 +89,670 @@ function mapForkStrategy(strategy: string): ForkStrategy {
     case 'timestamp':
       return 'PITR'
     default:
-      throw new Error(
+      throw new InputError(
         `Invalid forking strategy: ${strategy}. Must be one of: now, last-snapshot, timestamp`
       )
   }
 }
 
+/**
+ * When the fork is cleaned up in the post step
+ */
+type CleanupMode = 'always' | 'on-success' | 'on-failure' | 'never'
+
+/**
+ * What cleaning up the fork means
+ */
+type CleanupAction = 'delete' | 'pause'
+
+/**
+ * When each cleanup mode cleans up the fork, for logging
+ */
+const CLEANUP_CONDITIONS: Record<CleanupMode, string> = {
+  always: 'after the job completes',
+  'on-success': 'after the job completes if it succeeded',
+  'on-failure': 'after the job completes if it failed',
+  never: 'never'
+}
+
+/**
+ * Past tense of each cleanup action, for logging
+ */
+const CLEANUP_ACTION_PAST_TENSE: Record<CleanupAction, string> = {
+  delete: 'deleted',
+  pause: 'paused'
+}
+
+/**
+ * Maps the cleanup input to a cleanup mode
+ * The boolean values of earlier versions map to always and never
+ *
+ * @param mode - The cleanup input (always, on-success, on-failure, never)
+ * @returns The cleanup mode
+ */
+function mapCleanupMode(mode: string): CleanupMode {
+  switch (mode.toLowerCase()) {
+    case 'always':
+    case 'true':
+      return 'always'
+    case 'on-success':
+      return 'on-success'
+    case 'on-failure':
+      return 'on-failure'
+    case 'never':
+    case 'false':
+    case '':
+      return 'never'
+    default:
+      throw new InputError(
+        `Invalid cleanup mode: ${mode}. Must be one of: always, on-success, on-failure, never`
+      )
+  }
+}
+
+/**
+ * Maps the cleanup_action input to a cleanup action
+ *
+ * @param action - The cleanup_action input (delete, pause)
+ * @returns The cleanup action
+ */
+function mapCleanupAction(action: string): CleanupAction {
+  switch (action.toLowerCase()) {
+    case 'delete':
+    case '':
+      return 'delete'
+    case 'pause':
+      return 'pause'
+    default:
+      throw new InputError(
+        `Invalid cleanup action: ${action}. Must be one of: delete, pause`
+      )
+  }
+}
+
+/**
+ * Maps the name_collision input to what to do when a name is taken
+ *
+ * @param collision - The name_collision input (allow, fail, suffix)
+ * @returns What to do when a name is taken
+ */
+function mapNameCollision(collision: string): NameCollision {
+  switch (collision.toLowerCase()) {
+    case 'allow':
+    case '':
+      return 'allow'
+    case 'fail':
+      return 'fail'
+    case 'suffix':
+      return 'suffix'
+    default:
+      throw new InputError(
+        `Invalid name_collision: ${collision}. Must be one of: allow, fail, suffix`
+      )
+  }
+}
+
+/**
+ * Signals sent by the runner when a workflow run is cancelled
+ */
+const CANCEL_SIGNALS: NodeJS.Signals[] = ['SIGINT', 'SIGTERM']
+
+/**
+ * Aborts the controller when the process receives a cancellation signal
+ * The first signal removes the handlers for all signals, so that the follow-up
+ * signal of the runner, e.g. SIGTERM after SIGINT, terminates the process as
+ * usual
+ *
+ * @param controller - The controller to abort
+ * @returns A function that removes the signal handlers
+ */
+function handleCancellation(controller: AbortController): () => void {
+  const remove = (): void => {
+    for (const signal of CANCEL_SIGNALS) {
+      process.off(signal, handler)
+    }
+  }
+  const handler = (signal: NodeJS.Signals): void => {
+    remove()
+    io.warning(`Received ${signal}, cancelling...`)
+    controller.abort(new CancelledError(signal))
+  }
+
+  for (const signal of CANCEL_SIGNALS) {
+    process.on(signal, handler)
+  }
+  return remove
+}
+
+/**
+ * Maps the mode input to what the action does
+ *
+ * @param mode - The mode input (fork, sweep, pull-request)
+ * @returns The mode
+ */
+function mapMode(mode: string): 'fork' | 'sweep' | 'pull-request' {
+  switch (mode.toLowerCase()) {
+    case 'fork':
+    case '':
+      return 'fork'
+    case 'sweep':
+      return 'sweep'
+    case 'pull-request':
+      return 'pull-request'
+    default:
+      throw new InputError(
+        `Invalid mode: ${mode}. Must be one of: fork, sweep, pull-request`
+      )
+  }
+}
+
+/**
+ * Names the forks of a run, numbered or suffixed with the alias of the parent
+ * to tell them apart, e.g. for reuse by later runs
+ *
+ * @param name - The name input
+ * @param parents - The services to fork
+ * @param count - The number of forks per service
+ * @returns The service to fork and the name of each fork
+ */
+function getForkTargets(
+  name: string,
+  parents: ParentService[],
+  count: number
+): { parent: ParentService; name: string }[] {
+  return parents.flatMap((parent) =>
+    Array.from({ length: count }, (_, index) => {
+      let forkName = name
+      if (name && parents.length > 1) {
+        forkName = `${name}-${parent.alias}`
+      } else if (name && count > 1) {
+        forkName = `${name}-${index + 1}`
+      }
+      return { parent, name: forkName }
+    })
+  )
+}
+
+/**
+ * Reads the name input and resolves its placeholders
+ *
+ * @param pr - The pull request in pull-request mode, whose forks are named
+ *   fork-<number> by default
+ * @returns The name, or an empty string to leave it to the API
+ */
+async function getNameInput(pr?: PullRequestEvent): Promise<string> {
+  const template =
+    io.getInput('name', { required: false }) || (pr ? `fork-${pr.number}` : '')
+  return template.includes('{')
+    ? resolveNameTemplate(template, await getNameContext())
+    : template
+}
+
+/**
+ * Looks up the forks of a pull request by their names
+ * Services with the name that are not forks of the parent, including services
+ * that are not forks at all, are never deleted
+ *
+ * @param projectId - The project ID
+ * @param targets - The service forked and the name of each fork
+ * @param apiKey - The API key for authentication
+ * @param apiOptions - API client options
+ * @returns The forks that are not being deleted already
+ */
+async function findPullRequestForks(
+  projectId: string,
+  targets: { parent: ParentService; name: string }[],
+  apiKey: string,
+  apiOptions: ApiOptions
+): Promise<Service[]> {
+  const services = await listServices(projectId, apiKey, apiOptions)
+  return services.filter(
+    (service) =>
+      service.status !== 'DELETING' &&
+      service.status !== 'DELETED' &&
+      targets.some(
+        (target) =>
+          target.name === service.name &&
+          service.forked_from?.service_id === target.parent.serviceId
+      )
+  )
+}
+
+/**
+ * Deletes the forks of a closed pull request, in pull-request mode
+ *
+ * @param pr - The pull request
+ */
+async function closePullRequest(pr: PullRequestEvent): Promise<void> {
+  const projectId = io.getInput('project_id', { required: true })
+  const apiKey = await getApiKey()
+  const apiOptions = getApiOptions()
+  const name = await getNameInput(pr)
+  const targets = getForkTargets(
+    name,
+    getParentServicesInput(true),
+    getPositiveNumberInput('count', 1, true)
+  )
+
+  io.info(`Pull request #${pr.number} was closed, deleting its forks...`)
+  const forks = await findPullRequestForks(
+    projectId,
+    targets,
+    apiKey,
+    apiOptions
+  )
+  for (const fork of forks) {
+    try {
+      await deleteService(projectId, fork.service_id, apiKey, apiOptions)
+    } catch (error) {
+      if (!(error instanceof ApiRequestError && error.status === 404)) {
+        throw error
+      }
+    }
+    io.info(`Deleted forked service ${fork.service_id} (${fork.name})`)
+  }
+  if (forks.length === 0) {
+    io.info(`No fork named ${name} was found.`)
+  }
+  io.setOutput('deleted', JSON.stringify(forks.map((fork) => fork.service_id)))
+
+  if (io.getInput('pr_comment', { required: false }) === 'true') {
+    await upsertPullRequestComment(
+      pr,
+      forks.length > 0
+        ? `### Database fork\n\nThe pull request was closed, so its ${forks.length === 1 ? 'fork was' : 'forks were'} deleted: ${forks.map((fork) => `\`${fork.service_id}\``).join(', ')}.`
+        : '### Database fork\n\nThe pull request was closed. It had no fork to delete.',
+      io.getInput('github_token', { required: false })
+    )
+  }
+}
+
+/**
+ * Deletes or pauses the stale forks of the project, in sweep mode
+ *
+ * @throws SweepError if any stale fork could not be swept
+ */
+async function sweep(): Promise<void> {
+  const projectId = io.getInput('project_id', { required: true })
+  const apiKey = await getApiKey()
+  const prefix = io.getInput('sweep_prefix', { required: false })
+  const patternInput = io.getInput('sweep_pattern', { required: false })
+  if (!prefix && !patternInput) {
+    throw new InputError(
+      'sweep_prefix or sweep_pattern input is required in sweep mode, so that only forks are swept'
+    )
+  }
+  let pattern: RegExp | undefined
+  try {
+    pattern = patternInput ? new RegExp(patternInput) : undefined
+  } catch (error) {
+    throw new InputError(
+      `Invalid sweep_pattern: ${patternInput} (${error instanceof Error ? error.message : String(error)})`
+    )
+  }
+  const criteria: SweepCriteria = {
+    prefix,
+    pattern,
+    maxAgeMs: getDurationInput('max_age', '24h'),
+    parentServiceIds: getParentServicesInput(false).map(
+      (parent) => parent.serviceId
+    )
+  }
+  const action = mapCleanupAction(
+    io.getInput('cleanup_action', { required: false })
+  )
+  const dryRun = io.getInput('dry_run', { required: false }) === 'true'
+
+  const conditions = [
+    prefix && `named ${prefix}*`,
+    pattern && `matching /${pattern.source}/`,
+    criteria.parentServiceIds.length > 0 &&
+      `forked from ${criteria.parentServiceIds.join(' or ')}`
+  ].filter(Boolean)
+  io.info(
+    `Sweeping forks ${conditions.join(', ')} older than ${formatDuration(criteria.maxAgeMs)}` +
+      (dryRun ? ' (dry run, nothing is changed)' : '')
+  )
+  const results = await sweepForks(
+    projectId,
+    apiKey,
+    criteria,
+    action,
+    dryRun,
+    getApiOptions()
+  )
+  io.setOutput('swept', JSON.stringify(results))
+  await writeSweepSummary(results, dryRun)
+
+  const failed = results.filter((result) => result.outcome === 'Failed')
+  if (failed.length > 0) {
+    throw new SweepError(
+      `Failed to sweep ${failed.length} of ${results.length} stale fork(s): ` +
+        failed
+          .map((result) => `${result.service_id}: ${result.error}`)
+          .join('; '),
+      failed.map((result) => result.service_id)
+    )
+  }
+  io.info(`Sweep completed: ${results.length} stale fork(s)`)
+}
+
+/**
+ * A fork created or reused by the run
+ */
+interface Fork {
+  service: Service
+  /** Alias of the parent service */
+  alias: string
+  parentServiceId: string
+  /** Whether the fork was created by an earlier run */
+  reused: boolean
+  /** Set once the fork is ready, unless it has no endpoint or password */
+  connection?: ConnectionInfo
+}
+
+/**
+ * Creates a fork, or reuses a fork created by an earlier run
+ *
+ * @param projectId - The project ID
+ * @param parent - The service to fork
+ * @param request - The fork request, including the name of the fork
+ * @param reuse - Whether to look for an existing fork with the name first
+ * @param apiKey - The API key for authentication
+ * @param apiOptions - API client options
+ * @param waitOptions - How long to wait for a reused fork that is being paused
+ * @param waitForSlot - Waits until the fork can be created without exceeding
+ *   max_concurrent_forks
+ * @returns The fork as returned by the API
+ */
+async function createFork(
+  projectId: string,
+  parent: ParentService,
+  request: ForkServiceRequest,
+  reuse: boolean,
+  apiKey: string,
+  apiOptions: ApiOptions,
+  waitOptions: WaitOptions,
+  waitForSlot?: () => Promise<void>
+): Promise<Fork> {
+  // Look for a fork created by an earlier run before creating a new one
+  let reusable =
+    reuse && request.name
+      ? await findReusableFork(
+          projectId,
+          parent.serviceId,
+          request.name,
+          apiKey,
+          apiOptions
+        )
+      : undefined
+
+  if (reusable) {
+    io.info(
+      `Reusing existing fork ${reusable.service_id} (${request.name}), status: ${reusable.status}`
+    )
+    // E.g. the cleanup of an earlier run with cleanup_action: pause has not
+    // finished yet. The fork can only be resumed once it is paused
+    if (reusable.status === 'PAUSING') {
+      reusable = await waitForServicePaused(
+        projectId,
+        reusable.service_id,
+        apiKey,
+        waitOptions
+      )
+    }
+    if (reusable.paused || reusable.status === 'PAUSED') {
+      io.info(`Resuming forked service ${reusable.service_id}...`)
+      const resumed = await resumeService(
+        projectId,
+        reusable.service_id,
+        apiKey,
+        apiOptions
+      )
+      return {
+        service: {
+          ...reusable,
+          status: resumed.status || 'RESUMING',
+          paused: false
+        },
+        alias: parent.alias,
+        parentServiceId: parent.serviceId,
+        reused: true
+      }
+    }
+    return {
+      service: reusable,
+      alias: parent.alias,
+      parentServiceId: parent.serviceId,
+      reused: true
+    }
+  }
+
+  await waitForSlot?.()
+
+  // Call the fork API. The request is neither cancellable nor limited by
+  // request_timeout: aborting it could leave a fork behind whose ID we never
+  // learn
+  io.info('Calling fork service API...')
+  const service = await forkService(
+    projectId,
+    parent.serviceId,
+    request,
+    apiKey,
+    { ...apiOptions, timeoutMs: Infinity }
+  )
+  io.info(`Fork initiated successfully! New service ID: ${service.service_id}`)
+  io.info(`Initial status: ${service.status}`)
+  return {
+    service,
+    alias: parent.alias,
+    parentServiceId: parent.serviceId,
+    reused: false
+  }
+}
+
+/**
+ * Deletes forks right away instead of leaving them to the post step
+ * A fork that cannot be deleted does not stop the others from being deleted
+ *
+ * @param projectId - The project ID
+ * @param forks - The forks to delete
+ * @param apiKey - The API key for authentication
+ * @param apiOptions - API client options
+ */
+async function deleteForks(
+  projectId: string,
+  forks: Fork[],
+  apiKey: string,
+  apiOptions: ApiOptions
+): Promise<void> {
+  const deleted: string[] = []
+  for (const fork of forks) {
+    const forkId = fork.service.service_id
+    io.info(`Deleting forked service ${forkId}...`)
+    try {
+      await deleteService(projectId, forkId, apiKey, apiOptions)
+    } catch (error) {
+      io.warning(
+        `Failed to delete forked service ${forkId}, leaving it to the post step: ${error instanceof Error ? error.message : String(error)}`
+      )
+      continue
+    }
+    deleted.push(forkId)
+    io.saveState('deleted_service_ids', JSON.stringify(deleted))
+    io.info(`Successfully deleted forked service: ${forkId}`)
+  }
+}
+
+/**
+ * Describes a ready fork for the forks output
+ *
+ * @param fork - The fork
+ * @returns The ID, name and connection details of the fork
+ */
+function describeFork(fork: Fork): {
+  alias: string
+  service_id: string
+  name: string
+  host?: string
+  port?: number
+  password?: string
+  connection_string?: string
+  reused: boolean
+} {
+  const connectionString =
+    fork.connection && buildConnectionString(fork.connection)
+  for (const secret of [fork.service.initial_password, connectionString]) {
+    if (secret) {
+      io.setSecret(secret)
+    }
+  }
+  return {
+    alias: fork.alias,
+    service_id: fork.service.service_id,
+    name: fork.service.name,
+    host: fork.service.endpoint?.host,
+    port: fork.service.endpoint?.port,
+    password: fork.service.initial_password,
+    connection_string: connectionString,
+    reused: fork.reused
+  }
+}
+
+/**
+ * Runs a phase of the run and adds the time it took to its total
+ *
+ * @param phases - Time spent per phase in milliseconds, by name
+ * @param name - The name of the phase
+ * @param fn - The phase
+ * @returns The result of the phase
+ */
+async function timed<T>(
+  phases: Map<string, number>,
+  name: string,
+  fn: () => Promise<T>
+): Promise<T> {
+  const start = Date.now()
+  try {
+    return await fn()
+  } finally {
+    phases.set(name, (phases.get(name) ?? 0) + Date.now() - start)
+  }
+}
+
+/**
+ * Describes a fork for the job summary, without its password
+ *
+ * @param fork - The fork
+ * @returns The fork as shown in the job summary
+ */
+function summarizeFork(fork: Fork): SummarizedFork {
+  return {
+    serviceId: fork.service.service_id,
+    name: fork.service.name,
+    parentServiceId: fork.parentServiceId,
+    region: fork.service.region_code,
+    status: fork.service.status,
+    connection:
+      fork.connection &&
+      buildConnectionString({ ...fork.connection, password: '***' }),
+    reused: fork.reused
+  }
+}
+
 /**
  * The main function for the action.
  *
  * @returns Resolves when the action is complete.
  */
 export async function run(): Promise<void> {
+  const cancellation = new AbortController()
+  const removeCancellationHandlers = handleCancellation(cancellation)
+  // Forks, settings and timings of the run for the job summary
+  const forks: Fork[] = []
+  const phases = new Map<string, number>()
+  let forkSummary: Omit<ForkSummary, 'forks' | 'phases'> | undefined
+  let pr: PullRequestEvent | undefined
+
   try {
+    const mode = mapMode(io.getInput('mode', { required: false }))
+    io.saveState('mode', mode)
+    if (mode === 'sweep') {
+      await sweep()
+      return
+    }
+    pr = mode === 'pull-request' ? await getPullRequestEvent() : undefined
+    if (pr?.action === 'closed') {
+      await closePullRequest(pr)
+      return
+    }
+
     // Get inputs from action.yml
-    const projectId: string = core.getInput('project_id', { required: true })
-    const serviceId: string = core.getInput('service_id', { required: true })
-    const apiKey: string = core.getInput('api_key', { required: true })
-    const forkStrategyInput: string = core.getInput('fork_strategy', {
+    const projectId: string = io.getInput('project_id', { required: true })
+    const parents = getParentServicesInput(true)
+    const apiKey = await getApiKey()
+    const forkStrategyInput: string = io.getInput('fork_strategy', {
       required: true
     })
-    const targetTime: string = core.getInput('target_time', { required: false })
+    const targetTime: string = io.getInput('target_time', { required: false })
+    const apiOptions = getApiOptions()
+    const waitTimeoutMs = getPositiveNumberInput('wait_timeout', 30 * 60) * 1000
+    const waitOptions: WaitOptions = {
+      timeoutMs: waitTimeoutMs,
+      intervalMs: getPositiveNumberInput('poll_interval', 1) * 1000,
+      maxIntervalMs: getPositiveNumberInput('poll_interval_max', 10) * 1000,
+      api: { ...apiOptions, signal: cancellation.signal }
+    }
+    // The fork of a pull request lives until the pull request is closed
+    const cleanupInput = io.getInput('cleanup', { required: false })
+    const cleanupMode = pr ? 'never' : mapCleanupMode(cleanupInput)
+    if (pr && cleanupInput && mapCleanupMode(cleanupInput) !== 'never') {
+      io.warning(
+        'cleanup input is ignored in pull-request mode, the fork is deleted when the pull request is closed'
+      )
+    }
+    const cleanupAction = mapCleanupAction(
+      io.getInput('cleanup_action', { required: false })
+    )
+    const exportEnv = io.getInput('export_env', { required: false }) === 'true'
+    const envFile = io.getInput('env_file', { required: false })
+    const pgpass = io.getInput('pgpass', { required: false }) === 'true'
+    const probe = io.getInput('probe', { required: false }) === 'true'
+    // Pushes to a pull request reuse its fork, unless it is to be refreshed
+    const refresh =
+      pr?.action === 'synchronize' &&
+      io.getInput('pr_refresh', { required: false }) === 'true'
+    const reuse =
+      (pr !== undefined && !refresh) ||
+      io.getInput('reuse', { required: false }) === 'true'
+    const prComment =
+      pr !== undefined &&
+      io.getInput('pr_comment', { required: false }) === 'true'
+    const count = getPositiveNumberInput('count', 1, true)
+    const dryRun = io.getInput('dry_run', { required: false }) === 'true'
+    if (count > 1 && parents.length > 1) {
+      throw new InputError(
+        'count cannot be combined with several services in service_id'
+      )
+    }
+    const probeTimeoutMs = getPositiveNumberInput('probe_timeout', 300) * 1000
+    const maskingRulesFile = io.getInput('masking_rules', { required: false })
+    const maskingRules = maskingRulesFile
+      ? await loadMaskingRules(maskingRulesFile)
+      : []
+    const sqlFiles = await resolveSqlFiles(
+      io.getInput('migrations_dir', { required: false }),
+      io
+        .getInput('sql_files', { required: false })
+        .split(/[\n,]/)
+        .map((file) => file.trim())
+        .filter(Boolean)
+    )
 
-    core.info(`Starting fork operation for service ${serviceId}...`)
-    core.info(`Fork strategy: ${forkStrategyInput}`)
+    io.info(
+      `Starting fork operation for ${parents.length === 1 ? 'service' : 'services'} ${parents.map((parent) => parent.serviceId).join(', ')}...`
+    )
+    io.info(`Fork strategy: ${forkStrategyInput}`)
 
     // Map the forking strategy to API enum
     const forkStrategy = mapForkStrategy(forkStrategyInput)
@@ -52,17 +763,72 @@ export async function run(): Promise<void> {
     }
 
     // Add optional parameters if provided
-    const name = core.getInput('name', { required: false })
+    let name = await getNameInput(pr)
+    if (!name && reuse) {
+      throw new InputError(
+        'name input is required when reuse is enabled, to find the fork to reuse'
+      )
+    }
+    if (io.getInput('name_suffix', { required: false }) === 'true') {
+      if (!name) {
+        throw new InputError(
+          'name input is required when name_suffix is enabled'
+        )
+      }
+      if (reuse || pr) {
+        throw new InputError(
+          'name_suffix cannot be combined with reuse or pull-request mode, which look up the fork by its name'
+        )
+      }
+      name = addRandomSuffix(name)
+    }
     if (name) {
       forkRequest.name = name
     }
+    const nameCollision = mapNameCollision(
+      io.getInput('name_collision', { required: false })
+    )
+
+    // Forks following the naming convention of name count towards
+    // max_concurrent_forks
+    const maxConcurrentForks = getPositiveNumberInput(
+      'max_concurrent_forks',
+      Infinity,
+      true
+    )
+    const nameTemplate =
+      io.getInput('name', { required: false }) || (pr ? 'fork-{pr}' : '')
+    if (Number.isFinite(maxConcurrentForks) && !nameTemplate) {
+      // Without a naming convention the forks of other workflows would be
+      // counted, and evicted with evict_oldest
+      throw new InputError(
+        'name input is required when max_concurrent_forks is set, to count and evict only the forks that follow its naming convention'
+      )
+    }
+    const queueIntervalMs = getPositiveNumberInput('queue_interval', 30) * 1000
+    const concurrency: ConcurrencyOptions | undefined = Number.isFinite(
+      maxConcurrentForks
+    )
+      ? {
+          maxForks: maxConcurrentForks,
+          pattern: templateToPattern(nameTemplate),
+          parentServiceIds: parents.map((parent) => parent.serviceId),
+          timeoutMs: getPositiveNumberInput('queue_timeout', 30 * 60) * 1000,
+          intervalMs: queueIntervalMs,
+          maxIntervalMs: Math.max(queueIntervalMs, 5 * 60 * 1000),
+          evictOldest:
+            io.getInput('evict_oldest', { required: false }) === 'true',
+          keep: [],
+          signal: cancellation.signal
+        }
+      : undefined
 
-    const cpuMillisStr = core.getInput('cpu_millis', { required: false })
+    const cpuMillisStr = io.getInput('cpu_millis', { required: false })
     if (cpuMillisStr) {
       forkRequest.cpu_millis = cpuMillisStr
     }
 
-    const memoryGbsStr = core.getInput('memory_gbs', { required: false })
+    const memoryGbsStr = io.getInput('memory_gbs', { required: false })
     if (memoryGbsStr) {
       forkRequest.memory_gbs = memoryGbsStr
     }
@@ -70,81 +836,544 @@ export async function run(): Promise<void> {
     // If using PITR strategy, target_time is required
     if (forkStrategy === 'PITR') {
       if (!targetTime) {
-        throw new Error(
+        throw new InputError(
           'target_time input is required when using "timestamp" forking strategy'
         )
       }
-      forkRequest.target_time = targetTime
-      core.info(`Using target time: ${targetTime}`)
+      forkRequest.target_time = await resolveTargetTime(
+        targetTime,
+        io.getInput('github_token', { required: false })
+      )
+      io.info(
+        forkRequest.target_time === targetTime
+          ? `Using target time: ${targetTime}`
+          : `Using target time: ${forkRequest.target_time} (${targetTime})`
+      )
     } else if (targetTime) {
       // Warn if target_time is provided but not using PITR
-      core.warning(
+      io.warning(
         'target_time input is ignored when not using "timestamp" forking strategy'
       )
     }
 
-    // Call the fork API
-    core.info('Calling fork service API...')
-    const forkedService = await forkService(
-      projectId,
-      serviceId,
-      forkRequest,
-      apiKey
-    )
+    // The strategy that is actually used, for the policy and the summary
+    let strategy = forkStrategyInput
+    if (count > 1 && forkStrategy === 'NOW') {
+      // Each fork with the now strategy would be taken at a slightly different
+      // time, so all forks are taken at the time the step started instead
+      forkRequest.fork_strategy = 'PITR'
+      forkRequest.target_time = new Date().toISOString()
+      strategy = 'timestamp'
+      io.info(
+        `fork_strategy now would fork each of the ${count} forks at a slightly different time, so they are forked with the timestamp strategy as of ${forkRequest.target_time} instead. This can take longer than forking now.`
+      )
+    }
+    if (forkRequest.target_time) {
+      io.setOutput('resolved_target_time', forkRequest.target_time)
+    }
+
+    if (parents.length > 1 && forkStrategy === 'NOW') {
+      io.info(
+        `Forking ${parents.length} services back to back, so their snapshots are taken seconds apart. Use the timestamp strategy to fork them at exactly the same time.`
+      )
+    } else if (parents.length > 1 && forkStrategy === 'LAST_SNAPSHOT') {
+      io.warning(
+        'Each service is forked from its own last snapshot, which may have been taken at a different time. Use the timestamp strategy to fork them at the same time.'
+      )
+    }
+
+    const targets = getForkTargets(name, parents, count).map((target) => ({
+      parent: target.parent,
+      request: target.name ? { ...forkRequest, name: target.name } : forkRequest
+    }))
+
+    // Report every problem of the requests before anything is created
+    for (const target of targets) {
+      validateForkRequest(target.request)
+    }
 
-    core.info(
-      `Fork initiated successfully! New service ID: ${forkedService.service_id}`
+    const policy = await loadPolicy(
+      io.getInput('policy_file', { required: false })
     )
-    core.info(`Initial status: ${forkedService.status}`)
+    if (policy) {
+      io.info(`Checking the fork request against the policy in ${policy.path}`)
+      // The fork of a pull request is deleted when the pull request is closed
+      const violations = checkPolicy(policy, {
+        serviceIds: parents.map((parent) => parent.serviceId),
+        strategy,
+        cpuMillis: forkRequest.cpu_millis,
+        memoryGbs: forkRequest.memory_gbs,
+        cleanup: cleanupMode !== 'never' || pr !== undefined,
+        branch: process.env.GITHUB_HEAD_REF || process.env.GITHUB_REF_NAME,
+        event: process.env.GITHUB_EVENT_NAME
+      })
+      if (violations.length > 0) {
+        throw new PolicyError(
+          `The fork request violates the policy in ${policy.path}:\n` +
+            violations.map((violation) => `- ${violation}`).join('\n'),
+          violations
+        )
+      }
+    }
+
+    if (dryRun) {
+      io.saveState('dry_run', 'true')
+      io.info('Dry run, no fork is created. The fork API would be called with:')
+      for (const target of targets) {
+        io.info(
+          `POST /projects/${projectId}/services/${target.parent.serviceId}/forkService\n` +
+            JSON.stringify(target.request, null, 2)
+        )
+      }
+      if (reuse) {
+        io.info(
+          'Existing forks are not looked up in a dry run, so a fork may be reused instead.'
+        )
+      }
+      io.setOutput(
+        'fork_requests',
+        JSON.stringify(
+          targets.map((target) => ({
+            service_id: target.parent.serviceId,
+            request: target.request
+          }))
+        )
+      )
+      return
+    }
 
-    // Wait for the forked service to be ready
-    core.info('Waiting for forked service to be ready...')
-    await waitForServiceReady(projectId, forkedService.service_id, apiKey)
+    // Save state for post-action cleanup before the first fork is created, so
+    // that the forks are cleaned up even if waiting fails or the run is
+    // cancelled
+    io.saveState('project_id', projectId)
+    io.saveState('cleanup', cleanupMode)
+    io.saveState('cleanup_action', cleanupAction)
 
-    // Set outputs for other workflow steps to use
-    core.setOutput('service_id', forkedService.service_id)
-    core.setOutput('name', forkedService.name)
+    forkSummary = {
+      strategy,
+      targetTime: forkRequest.target_time,
+      cpuMillis: forkRequest.cpu_millis,
+      memoryGbs: forkRequest.memory_gbs,
+      cleanup:
+        cleanupMode === 'never'
+          ? 'Kept after the job completes'
+          : `${CLEANUP_ACTION_PAST_TENSE[cleanupAction]} ${CLEANUP_CONDITIONS[cleanupMode]}`
+    }
+
+    if (refresh) {
+      // A push to the pull request replaces its forks with fresh ones
+      const stale = await findPullRequestForks(
+        projectId,
+        targets.map((target) => ({
+          parent: target.parent,
+          name: target.request.name || ''
+        })),
+        apiKey,
+        apiOptions
+      )
+      for (const fork of stale) {
+        io.info(
+          `Deleting forked service ${fork.service_id} (${fork.name}) to refresh it...`
+        )
+        await deleteService(projectId, fork.service_id, apiKey, apiOptions)
+      }
+    }
+
+    // A reused fork, or the fork of a pull request, has the name on purpose
+    if (nameCollision !== 'allow' && !reuse && !pr && name) {
+      const services = await listServices(projectId, apiKey, apiOptions)
+      for (const target of targets) {
+        const targetName = target.request.name || ''
+        target.request.name = avoidNameCollision(
+          targetName,
+          services,
+          nameCollision
+        )
+        if (target.request.name !== targetName) {
+          io.info(
+            `A service named ${targetName} already exists, naming the fork ${target.request.name}`
+          )
+        }
+      }
+    }
+
+    try {
+      for (const target of targets) {
+        cancellation.signal.throwIfAborted()
+        forks.push(
+          await timed(phases, 'Create fork', () =>
+            createFork(
+              projectId,
+              target.parent,
+              target.request,
+              reuse,
+              apiKey,
+              apiOptions,
+              waitOptions,
+              concurrency &&
+                (() =>
+                  waitForForkSlot(
+                    projectId,
+                    apiKey,
+                    {
+                      ...concurrency,
+                      keep: forks.map((fork) => fork.service.service_id)
+                    },
+                    apiOptions
+                  ))
+            )
+          )
+        )
+        io.saveState(
+          'forked_service_ids',
+          JSON.stringify(forks.map((fork) => fork.service.service_id))
+        )
+      }
+      io.setOutput('reused', String(forks[0].reused))
+
+      if (cleanupMode !== 'never') {
+        io.info(
+          `Cleanup mode is ${cleanupMode}. ${targets.length === 1 ? 'Service' : 'Services'} will be ${CLEANUP_ACTION_PAST_TENSE[cleanupAction]} ${CLEANUP_CONDITIONS[cleanupMode]}.`
+        )
+      }
+
+      // Wait for the forked services to be ready, and stop waiting for the
+      // others as soon as one of them fails. The waits run concurrently, so
+      // they share one log group, as groups cannot be nested
+      io.startGroup(
+        `Waiting for ${targets.length === 1 ? 'forked service' : `${targets.length} forked services`} to be ready (timeout: ${waitTimeoutMs / 1000}s)`
+      )
+      const failed = new AbortController()
+      const signal = AbortSignal.any([cancellation.signal, failed.signal])
+      const results = await timed(phases, 'Wait until ready', () =>
+        Promise.all(
+          forks.map((fork) =>
+            waitForServiceReady(projectId, fork.service.service_id, apiKey, {
+              ...waitOptions,
+              api: { ...apiOptions, signal },
+              initialStatus: fork.service.status
+            }).catch((error: unknown) => {
+              failed.abort(error)
+              throw error
+            })
+          )
+        )
+      ).finally(() => io.endGroup())
+      results.forEach((result, index) => {
+        forks[index].service = { ...forks[index].service, ...result.service }
+      })
+      io.setOutput('status_timeline', JSON.stringify(results[0].timeline))
+
+      // The steps after the wait check for cancellation in between, so that
+      // the forks are deleted right away below
+      for (const [index, fork] of forks.entries()) {
+        cancellation.signal.throwIfAborted()
+        if (fork.reused) {
+          // The password of an existing fork is not returned by the API, so it
+          // is replaced to be able to hand out connection details
+          const password = generatePassword()
+          io.setSecret(password)
+          await timed(phases, 'Reset password', () =>
+            updateServicePassword(
+              projectId,
+              fork.service.service_id,
+              password,
+              apiKey,
+              apiOptions
+            )
+          )
+          fork.service = { ...fork.service, initial_password: password }
+        }
+        fork.connection = getConnectionInfo(fork.service)
+        const { connection } = fork
+
+        // READY does not guarantee that clients can connect yet
+        if (probe) {
+          if (!connection) {
+            io.warning(
+              `The forked service ${fork.service.service_id} has no endpoint or password, so its connectivity was not probed`
+            )
+          } else {
+            await timed(phases, 'Connectivity probe', () =>
+              probeConnection(connection, {
+                timeoutMs: probeTimeoutMs,
+                signal: cancellation.signal
+              })
+            )
+          }
+        }
+
+        // Sensitive data is masked before anything else can read it, including
+        // the migrations and later steps using the outputs
+        cancellation.signal.throwIfAborted()
+        if (maskingRules.length > 0) {
+          if (!connection) {
+            throw new MaskingError(
+              `The forked service ${fork.service.service_id} has no endpoint or password, so its data cannot be masked`
+            )
+          }
+          const report = await timed(phases, 'Data masking', () =>
+            applyMaskingRules(connection, maskingRules, {
+              timeoutMs: probeTimeoutMs,
+              signal: cancellation.signal
+            })
+          )
+          if (index === 0) {
+            io.setOutput('masking_report', JSON.stringify(report))
+          }
+        }
+
+        if (sqlFiles.length > 0) {
+          if (!connection) {
+            throw new MigrationError(
+              `The forked service ${fork.service.service_id} has no endpoint or password, so the SQL files cannot be applied`,
+              { applied: [] }
+            )
+          }
+          const applied = await timed(phases, 'Migrations', () =>
+            applySqlFiles(connection, sqlFiles, cancellation.signal)
+          ).catch((error: unknown) => {
+            if (error instanceof MigrationError && index === 0) {
+              io.setOutput('migrations_applied', JSON.stringify(error.applied))
+            }
+            throw error
+          })
+          if (index === 0) {
+            io.setOutput('migrations_applied', JSON.stringify(applied))
+          }
+        }
+      }
+      cancellation.signal.throwIfAborted()
+    } catch (error) {
+      // The post step is not guaranteed to run when a run is cancelled, so
+      // delete new forks right away. A fork that never became ready is of no
+      // use for debugging, so this ignores the cleanup mode and action. A
+      // reused fork is left to the post step, so that it survives a pause.
+      // Forks of several services are only useful together, so they are all
+      // rolled back when any of them fails, also when it fails after it
+      // became ready, e.g. in the probe, the masking or the migrations
+      if (
+        (error instanceof CancelledError && cleanupMode !== 'never') ||
+        parents.length > 1
+      ) {
+        await deleteForks(
+          projectId,
+          forks.filter((fork) => !fork.reused),
+          apiKey,
+          apiOptions
+        )
+      }
+      throw error
+    }
+    // Set outputs for other workflow steps to use, the singular outputs
+    // describe the first fork
+    const forkedService = forks[0].service
+    const connection = forks[0].connection
+    io.setOutput('service_id', forkedService.service_id)
+    io.setOutput('name', forkedService.name)
 
     // Set connection information outputs
     if (forkedService.endpoint) {
-      core.setOutput('host', forkedService.endpoint.host)
-      core.setOutput('port', forkedService.endpoint.port.toString())
+      io.setOutput('host', forkedService.endpoint.host)
+      io.setOutput('port', forkedService.endpoint.port.toString())
     }
 
     if (forkedService.initial_password) {
       // Mask the password in logs
-      core.setSecret(forkedService.initial_password)
-      core.setOutput('initial_password', forkedService.initial_password)
+      io.setSecret(forkedService.initial_password)
+      io.setOutput('initial_password', forkedService.initial_password)
     }
 
-    core.info(
-      `Fork operation completed successfully! Forked service ID: ${forkedService.service_id}`
-    )
+    const entries = forks.map((fork) => describeFork(fork))
+    io.setOutput('forks', JSON.stringify(entries))
+    if (count === 1) {
+      io.setOutput(
+        'services',
+        JSON.stringify(
+          Object.fromEntries(entries.map((entry) => [entry.alias, entry]))
+        )
+      )
+    }
 
-    if (forkedService.endpoint) {
-      core.info(
-        `Connection: ${forkedService.endpoint.host}:${forkedService.endpoint.port}`
+    if (connection) {
+      io.setOutput('connection_string', buildConnectionString(connection))
+
+      if (exportEnv) {
+        for (const [name, value] of Object.entries(
+          getLibpqEnvironment(connection)
+        )) {
+          io.exportVariable(name, value)
+        }
+        io.info(
+          'Exported PGHOST, PGPORT, PGUSER, PGPASSWORD, PGDATABASE and PGSSLMODE'
+        )
+      }
+      if (envFile) {
+        await writeEnvFile(envFile, connection)
+        io.info(`Wrote connection details to ${envFile}`)
+      }
+    } else if (exportEnv || envFile) {
+      io.warning(
+        'The forked service has no endpoint or password, so no connection details were exported'
       )
     }
+    if (pgpass) {
+      for (const fork of forks) {
+        if (!fork.connection) {
+          io.warning(
+            `The forked service ${fork.service.service_id} has no endpoint or password, so it was not added to the password file`
+          )
+          continue
+        }
+        const pgpassFile = await writePgpass(fork.connection)
+        io.info(
+          `Added the forked service ${fork.service.service_id} to ${pgpassFile}`
+        )
+      }
+    }
 
-    // Save state for post-action cleanup
-    const cleanup = core.getInput('cleanup', { required: false }) || 'false'
-    if (cleanup.toLowerCase() === 'true') {
-      core.saveState('forked_service_id', forkedService.service_id)
-      core.saveState('project_id', projectId)
-      core.saveState('api_key', apiKey)
-      core.saveState('cleanup', 'true')
-      core.info(
-        'Cleanup is enabled. Service will be deleted after workflow completes.'
+    for (const fork of forks) {
+      io.info(
+        `Fork operation completed successfully! Forked service ID: ${fork.service.service_id}`
+      )
+      if (fork.service.endpoint) {
+        io.info(
+          `Connection: ${fork.service.endpoint.host}:${fork.service.endpoint.port}`
+        )
+      }
+    }
+    if (pr && prComment) {
+      await upsertPullRequestComment(
+        pr,
+        formatForksComment(
+          forks.map((fork) => fork.service),
+          pr
+        ),
+        io.getInput('github_token', { required: false })
       )
     }
+    io.saveState('run_outcome', 'success')
   } catch (error) {
+    io.saveState('run_outcome', 'failure')
+
+    // Expose a stable error code so downstream steps can branch on it
+    io.setOutput('error_code', getErrorCode(error))
+
     // Fail the workflow run if an error occurs
-    if (error instanceof Error) {
-      core.setFailed(error.message)
-    } else {
-      core.setFailed(String(error))
+    const message = error instanceof Error ? error.message : String(error)
+    io.setFailed(message)
+    if (forkSummary) {
+      forkSummary.error = message
+    }
+
+    if (pr && io.getInput('pr_comment', { required: false }) === 'true') {
+      await upsertPullRequestComment(
+        pr,
+        `### Database fork\n\nForking the database failed: ${message}`,
+        io.getInput('github_token', { required: false })
+      )
+    }
+  } finally {
+    removeCancellationHandlers()
+    if (forkSummary) {
+      await writeForkSummary({
+        ...forkSummary,
+        forks: forks.map((fork) => summarizeFork(fork)),
+        phases: [...phases].map(([name, durationMs]) => ({ name, durationMs }))
+      })
+    }
+  }
+}
+
+/**
+ * Outcome of cleaning up a fork, for the job summary
+ */
+interface CleanupOutcome {
+  serviceId: string
+  result: string
+  details: string
+}
+
+/**
+ * Deletes or pauses a fork in the post step
+ * Failures are reported as the outcome instead of being thrown, so that they
+ * do not stop the other forks from being cleaned up
+ *
+ * @param projectId - The project ID
+ * @param serviceId - The forked service ID
+ * @param cleanupAction - Whether to delete or pause the fork
+ * @param apiKey - The API key for authentication
+ * @param apiOptions - API client options
+ * @returns What happened to the fork
+ */
+async function cleanupFork(
+  projectId: string,
+  serviceId: string,
+  cleanupAction: CleanupAction,
+  apiKey: string,
+  apiOptions: ApiOptions
+): Promise<CleanupOutcome> {
+  try {
+    if (cleanupAction === 'pause') {
+      io.info(`Pausing forked service: ${serviceId}`)
+      await pauseService(projectId, serviceId, apiKey, apiOptions)
+      io.info(`Successfully paused forked service: ${serviceId}`)
+      return { serviceId, result: 'Paused', details: 'Pause requested' }
+    }
+
+    // The fork is deleted whatever its status, including forks that never
+    // became ready because waiting timed out or the run was cancelled
+    io.info(`Cleaning up forked service: ${serviceId}`)
+
+    // Delete the forked service
+    try {
+      await deleteService(projectId, serviceId, apiKey, apiOptions)
+    } catch (error) {
+      if (error instanceof ApiRequestError && error.status === 404) {
+        io.info(`Forked service ${serviceId} no longer exists.`)
+        return {
+          serviceId,
+          result: 'Deleted',
+          details: 'The service no longer existed'
+        }
+      }
+      throw error
+    }
+
+    if (io.getInput('wait_for_deletion', { required: false }) === 'true') {
+      // Deletion is asynchronous, so only a DELETED status or a 404 proves
+      // that the fork no longer incurs costs
+      const startedAt = Date.now()
+      try {
+        await waitForServiceDeleted(projectId, serviceId, apiKey, {
+          timeoutMs: getPositiveNumberInput('deletion_timeout', 300) * 1000,
+          intervalMs: getPositiveNumberInput('poll_interval', 1) * 1000,
+          maxIntervalMs: getPositiveNumberInput('poll_interval_max', 10) * 1000,
+          api: apiOptions
+        })
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        io.warning(
+          `Deletion of forked service ${serviceId} was requested but could not be verified: ${message}`
+        )
+        return { serviceId, result: 'Deletion not verified', details: message }
+      }
+      const seconds = ((Date.now() - startedAt) / 1000).toFixed(1)
+      io.info(`Successfully deleted forked service: ${serviceId}`)
+      return {
+        serviceId,
+        result: 'Deleted',
+        details: `Deletion verified after ${seconds}s`
+      }
     }
+
+    io.info(`Successfully deleted forked service: ${serviceId}`)
+    return { serviceId, result: 'Deleted', details: 'Deletion requested' }
+  } catch (error) {
+    // Don't fail the workflow if cleanup fails, just warn
+    const message = error instanceof Error ? error.message : String(error)
+    io.warning(`Failed to cleanup forked service ${serviceId}: ${message}`)
+    return { serviceId, result: 'Cleanup failed', details: message }
   }
 }
 
@@ -155,38 +1384,137 @@ export async function run(): Promise<void> {
  * @returns Resolves when cleanup is complete.
  */
 export async function post(): Promise<void> {
+  // Outcome of the cleanup of each fork for the job summary
+  const outcomes: CleanupOutcome[] = []
+  const start = Date.now()
+
   try {
-    // Check if cleanup is enabled
-    const cleanup = core.getState('cleanup')
-    if (cleanup !== 'true') {
-      core.info('Cleanup not enabled, skipping service deletion.')
+    // Nothing was created by a sweep or a dry run
+    if (io.getState('mode') === 'sweep' || io.getState('dry_run') === 'true') {
+      return
+    }
+    if (io.getState('mode') === 'pull-request') {
+      io.info(
+        'Forks of pull requests are kept until the pull request is closed.'
+      )
       return
     }
 
     // Retrieve saved state
-    const forkedServiceId = core.getState('forked_service_id')
-    const projectId = core.getState('project_id')
-    const apiKey = core.getState('api_key')
+    const forkedServiceIds: string[] = JSON.parse(
+      io.getState('forked_service_ids') || '[]'
+    )
 
-    if (!forkedServiceId || !projectId || !apiKey) {
-      core.warning(
+    // Check if cleanup is enabled
+    const cleanupMode = mapCleanupMode(io.getState('cleanup'))
+    if (cleanupMode === 'never') {
+      io.info('Cleanup not enabled, skipping service deletion.')
+      for (const serviceId of forkedServiceIds) {
+        outcomes.push({
+          serviceId,
+          result: 'Kept',
+          details: 'Cleanup is never'
+        })
+      }
+      return
+    }
+    const projectId = io.getState('project_id')
+    const cleanupAction = mapCleanupAction(io.getState('cleanup_action'))
+
+    if (forkedServiceIds.length === 0 || !projectId) {
+      io.warning(
         'Missing required state for cleanup. Skipping service deletion.'
       )
       return
     }
 
-    core.info(`Cleaning up forked service: ${forkedServiceId}`)
+    const deletedServiceIds: string[] = JSON.parse(
+      io.getState('deleted_service_ids') || '[]'
+    )
+    for (const serviceId of deletedServiceIds) {
+      io.info(
+        `Forked service ${serviceId} was already deleted by the fork step.`
+      )
+      outcomes.push({
+        serviceId,
+        result: 'Deleted',
+        details: 'Deleted when the run failed or was cancelled'
+      })
+    }
+    const serviceIds = forkedServiceIds.filter(
+      (serviceId) => !deletedServiceIds.includes(serviceId)
+    )
+    if (serviceIds.length === 0) {
+      return
+    }
+    // The API key is not saved in the state, so it is read from its source
+    // again
+    const apiKey = await getApiKey()
+    const forks = `forked service${serviceIds.length === 1 ? '' : 's'} ${serviceIds.join(', ')}`
 
-    // Delete the forked service
-    await deleteService(projectId, forkedServiceId, apiKey)
+    if (cleanupMode === 'on-success' || cleanupMode === 'on-failure') {
+      // A failure of this action fails the job, so the job outcome only has
+      // to be looked up when the action itself succeeded
+      const job =
+        io.getState('run_outcome') === 'failure'
+          ? { outcome: 'failure', reason: 'the fork step failed' }
+          : await getJobOutcome(
+              io.getInput('github_token', { required: false })
+            )
+      const wanted = cleanupMode === 'on-success' ? 'success' : 'failure'
 
-    core.info(`Successfully deleted forked service: ${forkedServiceId}`)
+      if (job.outcome === 'unknown') {
+        io.warning(
+          `Cleanup mode is ${cleanupMode} but the job outcome is unknown: ${job.reason}. ` +
+            `Keeping ${forks}.`
+        )
+        for (const serviceId of serviceIds) {
+          outcomes.push({
+            serviceId,
+            result: 'Kept',
+            details: `The job outcome is unknown: ${job.reason}`
+          })
+        }
+        return
+      }
+      if (job.outcome !== wanted) {
+        io.info(
+          `Cleanup mode is ${cleanupMode} and the job outcome is ${job.outcome} (${job.reason}). ` +
+            `Keeping ${forks}.`
+        )
+        for (const serviceId of serviceIds) {
+          outcomes.push({
+            serviceId,
+            result: 'Kept',
+            details: `Cleanup mode is ${cleanupMode} and the job outcome is ${job.outcome}`
+          })
+        }
+        return
+      }
+      io.info(
+        `Cleanup mode is ${cleanupMode} and the job outcome is ${job.outcome} (${job.reason}).`
+      )
+    } else {
+      io.info(`Cleanup mode is ${cleanupMode}.`)
+    }
+
+    // Inputs are available to the post step, so the API is called with the
+    // same options as in the fork step
+    const apiOptions = getApiOptions()
+    outcomes.push(
+      ...(await Promise.all(
+        serviceIds.map((serviceId) =>
+          cleanupFork(projectId, serviceId, cleanupAction, apiKey, apiOptions)
+        )
+      ))
+    )
   } catch (error) {
     // Don't fail the workflow if cleanup fails, just warn
-    if (error instanceof Error) {
-      core.warning(`Failed to cleanup forked service: ${error.message}`)
-    } else {
-      core.warning(`Failed to cleanup forked service: ${String(error)}`)
+    const message = error instanceof Error ? error.message : String(error)
+    io.warning(`Failed to cleanup forked services: ${message}`)
+  } finally {
+    if (outcomes.length > 0) {
+      await writeCleanupSummary(outcomes, Date.now() - start)
     }
   }
 }
@@ -0,0 +1,309 @@
+/**
+ * Masking of sensitive data in a forked service
+ *
+ * A fork of production contains real customer data. Masking rules overwrite
+ * or remove that data before the fork is handed to later steps of the job.
+ */
+import { io } from './io.js'
+import { readFile } from 'node:fs/promises'
+import pg from 'pg'
+import { parse } from 'yaml'
+import { createClient, type ConnectionInfo } from './connection.js'
+import { ConnectivityError, InputError, MaskingError } from './errors.js'
+import { probeConnection, type ProbeOptions } from './probe.js'
+
+/**
+ * How a rule masks its column or table
+ */
+export type MaskingStrategy = 'null' | 'hash' | 'fake_email' | 'truncate'
+
+/**
+ * Strategies that replace a value by a text derived from it
+ */
+const TEXT_STRATEGIES: MaskingStrategy[] = ['hash', 'fake_email']
+
+/**
+ * Column types the text strategies can write to
+ */
+const TEXT_TYPES = ['text', 'character varying', 'character', 'citext']
+
+/**
+ * A masking rule
+ */
+export interface MaskingRule {
+  /** The table, optionally qualified with its schema (default: public) */
+  table: string
+  /** The column to mask; not used by truncate */
+  column?: string
+  strategy: MaskingStrategy
+}
+
+/**
+ * Rows affected by a masking rule
+ */
+export interface MaskingResult {
+  table: string
+  column?: string
+  strategy: MaskingStrategy
+  rows: number
+}
+
+/**
+ * Reads masking rules from a YAML or JSON file
+ *
+ * The file contains a list of rules under `rules`, e.g.
+ *
+ *   rules:
+ *     - table: public.users
+ *       column: email
+ *       strategy: fake_email
+ *
+ * @param path - The rules file
+ * @returns The rules
+ * @throws InputError if the file cannot be read or a rule is invalid
+ */
+export async function loadMaskingRules(path: string): Promise<MaskingRule[]> {
+  let document: unknown
+  try {
+    document = parse(await readFile(path, 'utf8'))
+  } catch (error) {
+    throw new InputError(
+      `Invalid masking_rules: ${path} could not be read (${error instanceof Error ? error.message : String(error)})`
+    )
+  }
+
+  const rules = (document as { rules?: unknown } | null)?.rules
+  if (!Array.isArray(rules) || rules.length === 0) {
+    throw new InputError(
+      `Invalid masking_rules: ${path} must contain a non-empty list of rules`
+    )
+  }
+
+  return rules.map((rule: Partial<MaskingRule>, index) => {
+    const describe = `rule ${index + 1} of ${path}`
+    if (!rule?.table || typeof rule.table !== 'string') {
+      throw new InputError(`Invalid masking_rules: ${describe} has no table`)
+    }
+    if (
+      !['null', 'hash', 'fake_email', 'truncate'].includes(
+        String(rule.strategy)
+      )
+    ) {
+      throw new InputError(
+        `Invalid masking_rules: ${describe} has an invalid strategy: ${rule.strategy}. Must be one of: null, hash, fake_email, truncate`
+      )
+    }
+    if (rule.strategy === 'truncate' && rule.column) {
+      throw new InputError(
+        `Invalid masking_rules: ${describe} truncates ${rule.table} and must not have a column`
+      )
+    }
+    if (rule.strategy !== 'truncate' && !rule.column) {
+      throw new InputError(`Invalid masking_rules: ${describe} has no column`)
+    }
+    return {
+      table: rule.table,
+      column: rule.column,
+      strategy: rule.strategy as MaskingStrategy
+    }
+  })
+}
+
+/**
+ * Splits a table name into its schema and name
+ *
+ * @param table - The table, optionally qualified with its schema
+ * @returns The schema and the table name
+ */
+function splitTableName(table: string): [string, string] {
+  const dot = table.indexOf('.')
+  return dot === -1
+    ? ['public', table]
+    : [table.slice(0, dot), table.slice(dot + 1)]
+}
+
+/**
+ * Quotes a table name for use in a statement
+ *
+ * @param client - A client, used for quoting
+ * @param table - The table, optionally qualified with its schema
+ * @returns The quoted name
+ */
+function quoteTable(client: pg.Client, table: string): string {
+  return splitTableName(table)
+    .map((part) => client.escapeIdentifier(part))
+    .join('.')
+}
+
+/**
+ * Describes a rule, for logs and errors
+ *
+ * @param rule - The rule
+ * @returns The description
+ */
+function describeRule(rule: MaskingRule): string {
+  const target = rule.column ? `${rule.table}.${rule.column}` : rule.table
+  return `${target} (${rule.strategy})`
+}
+
+/**
+ * Checks that every table and column referenced by the rules exists and can
+ * hold the masked values
+ *
+ * @param client - A connected client
+ * @param rules - The rules
+ * @throws MaskingError listing every rule that cannot be applied
+ */
+async function validateRules(
+  client: pg.Client,
+  rules: MaskingRule[]
+): Promise<void> {
+  const tables = new Map(
+    rules.map((rule) => [rule.table, splitTableName(rule.table)])
+  )
+  const conditions = [...tables.values()]
+    .map(
+      ([schema, table]) =>
+        `(table_schema = ${client.escapeLiteral(schema)} AND table_name = ${client.escapeLiteral(table)})`
+    )
+    .join(' OR ')
+  const { rows } = await client.query<{
+    table_schema: string
+    table_name: string
+    column_name: string
+    data_type: string
+  }>(
+    `SELECT table_schema, table_name, column_name, data_type FROM information_schema.columns WHERE ${conditions}`
+  )
+
+  const problems: string[] = []
+  for (const rule of rules) {
+    const [schema, table] = splitTableName(rule.table)
+    const columns = rows.filter(
+      (row) => row.table_schema === schema && row.table_name === table
+    )
+    if (columns.length === 0) {
+      problems.push(`${describeRule(rule)}: table ${rule.table} does not exist`)
+      continue
+    }
+    if (!rule.column) {
+      continue
+    }
+    const column = columns.find((row) => row.column_name === rule.column)
+    if (!column) {
+      problems.push(
+        `${describeRule(rule)}: column ${rule.column} does not exist in ${rule.table}`
+      )
+    } else if (
+      TEXT_STRATEGIES.includes(rule.strategy) &&
+      !TEXT_TYPES.includes(column.data_type)
+    ) {
+      problems.push(
+        `${describeRule(rule)}: ${rule.strategy} needs a text column, but ${rule.column} is ${column.data_type}`
+      )
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new MaskingError(
+      `Masking rules do not match the schema of the fork, nothing was masked:\n  ${problems.join('\n  ')}`
+    )
+  }
+}
+
+/**
+ * Builds the statement applying a rule
+ *
+ * @param client - A client, used for quoting
+ * @param rule - The rule
+ * @returns The statement
+ */
+function buildStatement(client: pg.Client, rule: MaskingRule): string {
+  const table = quoteTable(client, rule.table)
+  if (rule.strategy === 'truncate') {
+    return `TRUNCATE TABLE ${table}`
+  }
+
+  const column = client.escapeIdentifier(rule.column || '')
+  switch (rule.strategy) {
+    case 'null':
+      return `UPDATE ${table} SET ${column} = NULL WHERE ${column} IS NOT NULL`
+    case 'hash':
+      return `UPDATE ${table} SET ${column} = md5(${column}::text) WHERE ${column} IS NOT NULL`
+    case 'fake_email':
+      // Derived from the original value, so that unique emails stay unique
+      return `UPDATE ${table} SET ${column} = 'user-' || left(md5(${column}::text), 16) || '@example.invalid' WHERE ${column} IS NOT NULL`
+  }
+}
+
+/**
+ * Applies masking rules to a service in a single transaction
+ * Either every rule is applied or, if any fails, none is. The service is
+ * probed first, since it may not accept connections right after it is READY
+ *
+ * @param info - The connection details
+ * @param rules - The rules to apply, in order
+ * @param probeOptions - How long to retry connecting to the service
+ * @returns The number of rows each rule affected
+ * @throws MaskingError if the service does not accept a connection, or a
+ *   rule refers to a missing table or column, or fails to apply
+ */
+export async function applyMaskingRules(
+  info: ConnectionInfo,
+  rules: MaskingRule[],
+  probeOptions: ProbeOptions = {}
+): Promise<MaskingResult[]> {
+  const client = createClient(info)
+  const results: MaskingResult[] = []
+
+  io.startGroup(`Applying ${rules.length} masking rule(s)`)
+  try {
+    await probeConnection(info, probeOptions).catch((error: unknown) => {
+      if (error instanceof ConnectivityError) {
+        throw new MaskingError(
+          `Could not connect to ${info.host}:${info.port} to mask data: ${error.message}`,
+          { cause: error }
+        )
+      }
+      throw error
+    })
+    await client.connect().catch((error: Error) => {
+      throw new MaskingError(
+        `Could not connect to ${info.host}:${info.port} to mask data: ${error.message}`,
+        { cause: error }
+      )
+    })
+    await validateRules(client, rules)
+
+    await client.query('BEGIN')
+    for (const rule of rules) {
+      try {
+        let rows: number
+        if (rule.strategy === 'truncate') {
+          // TRUNCATE does not report how many rows it removed
+          const { rows: counts } = await client.query<{ count: string }>(
+            `SELECT count(*) AS count FROM ${quoteTable(client, rule.table)}`
+          )
+          await client.query(buildStatement(client, rule))
+          rows = Number(counts[0].count)
+        } else {
+          const result = await client.query(buildStatement(client, rule))
+          rows = result.rowCount ?? 0
+        }
+        results.push({ ...rule, rows })
+        io.info(`Masked ${describeRule(rule)}: ${rows} row(s)`)
+      } catch (error) {
+        await client.query('ROLLBACK').catch(() => undefined)
+        throw new MaskingError(
+          `Failed to apply masking rule ${describeRule(rule)}: ${error instanceof Error ? error.message : String(error)}. No data was masked.`,
+          { cause: error }
+        )
+      }
+    }
+    await client.query('COMMIT')
+    return results
+  } finally {
+    io.endGroup()
+    await client.end().catch(() => undefined)
+  }
+}
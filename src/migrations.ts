@@ -0,0 +1,145 @@
+/**
+ * Runs migrations and seed SQL files against a forked service
+ */
+import { io } from './io.js'
+import { access, readdir, readFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { createClient, type ConnectionInfo } from './connection.js'
+import { InputError, MigrationError } from './errors.js'
+
+/**
+ * A SQL file that was applied
+ */
+export interface AppliedFile {
+  /** Path of the file */
+  file: string
+  /** How long applying the file took in milliseconds */
+  duration_ms: number
+}
+
+/**
+ * Lists the SQL files to apply, in order: the .sql files of the migrations
+ * directory sorted by name (numbers compared numerically, so that 2_x.sql
+ * comes before 10_x.sql), then the listed files in the given order
+ *
+ * @param migrationsDir - Directory of migrations, or an empty string
+ * @param sqlFiles - Additional files, e.g. seed data
+ * @returns The paths of the files
+ * @throws InputError if the directory or a file does not exist
+ */
+export async function resolveSqlFiles(
+  migrationsDir: string,
+  sqlFiles: string[]
+): Promise<string[]> {
+  const files: string[] = []
+
+  if (migrationsDir) {
+    const entries = await readdir(migrationsDir, { withFileTypes: true }).catch(
+      (error: NodeJS.ErrnoException) => {
+        throw new InputError(
+          `Invalid migrations_dir: ${migrationsDir} (${error.code || error.message})`
+        )
+      }
+    )
+    files.push(
+      ...entries
+        .filter((entry) => entry.isFile() && entry.name.endsWith('.sql'))
+        .map((entry) => entry.name)
+        .sort((a, b) => a.localeCompare(b, 'en', { numeric: true }))
+        .map((name) => join(migrationsDir, name))
+    )
+  }
+
+  for (const file of sqlFiles) {
+    await access(file).catch(() => {
+      throw new InputError(`Invalid sql_files: ${file} does not exist`)
+    })
+    files.push(file)
+  }
+  return files
+}
+
+/**
+ * Describes where in a file an error occurred
+ *
+ * @param sql - The contents of the file
+ * @param position - 1-based character position reported by the server
+ * @returns The location and the offending line, or an empty string
+ */
+function describeLocation(sql: string, position: string | undefined): string {
+  const offset = Number(position) - 1
+  if (!(offset >= 0) || offset > sql.length) {
+    return ''
+  }
+
+  const before = sql.slice(0, offset).split('\n')
+  const line = before.length
+  const column = before[before.length - 1].length + 1
+  const text = sql.split('\n')[line - 1].trim()
+  return ` at line ${line}, column ${column}: ${text}`
+}
+
+/**
+ * Applies SQL files to a service, each in its own transaction
+ * Stops at the first file that fails, whose changes are rolled back; files
+ * applied before it stay committed
+ *
+ * @param info - The connection details
+ * @param files - The files to apply, in order
+ * @param signal - Stops before the next file when aborted
+ * @returns The applied files and how long each took
+ * @throws MigrationError naming the file and the location of the failing
+ *   statement
+ */
+export async function applySqlFiles(
+  info: ConnectionInfo,
+  files: string[],
+  signal?: AbortSignal
+): Promise<AppliedFile[]> {
+  const applied: AppliedFile[] = []
+  const client = createClient(info)
+
+  io.startGroup(`Applying ${files.length} SQL file(s)`)
+  try {
+    await client.connect().catch((error: Error) => {
+      throw new MigrationError(
+        `Could not connect to ${info.host}:${info.port} to apply SQL files: ${error.message}`,
+        { applied },
+        { cause: error }
+      )
+    })
+
+    for (const file of files) {
+      signal?.throwIfAborted()
+      const sql = await readFile(file, 'utf8')
+      const startTime = Date.now()
+
+      await client.query('BEGIN')
+      try {
+        await client.query(sql)
+        await client.query('COMMIT')
+      } catch (error) {
+        await client.query('ROLLBACK').catch(() => undefined)
+        const { message, code, position } = error as Error & {
+          code?: string
+          position?: string
+        }
+        throw new MigrationError(
+          `Failed to apply ${file}${describeLocation(sql, position)}\n` +
+            `${message}${code ? ` (SQLSTATE ${code})` : ''}. ` +
+            `The changes of this file were rolled back.`,
+          { file, applied },
+          { cause: error }
+        )
+      }
+
+      const durationMs = Date.now() - startTime
+      applied.push({ file, duration_ms: durationMs })
+      io.info(`Applied ${file} (took ${(durationMs / 1000).toFixed(1)}s)`)
+    }
+    return applied
+  } finally {
+    io.endGroup()
+    await client.end().catch(() => undefined)
+  }
+}
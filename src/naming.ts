@@ -0,0 +1,175 @@
+/**
+ * Names of forks: templates with placeholders from the workflow context, and
+ * suffixes that keep the names of concurrent runs apart
+ */
+import { randomBytes } from 'node:crypto'
+import { InputError } from './errors.js'
+import { getEventPayload } from './github.js'
+import type { Service } from './types.js'
+import { MAX_NAME_LENGTH } from './validation.js'
+
+/**
+ * What to do when a fork would get the name of an existing service
+ */
+export type NameCollision = 'allow' | 'fail' | 'suffix'
+
+/**
+ * Length of the random suffix of names, in hex characters
+ */
+const RANDOM_SUFFIX_LENGTH = 6
+
+/**
+ * Describes where each placeholder comes from, for error messages
+ */
+const PLACEHOLDERS: Record<string, string> = {
+  owner: 'the owner of the repository',
+  repo: 'the name of the repository',
+  pr: 'the number of the pull request',
+  branch: 'the branch',
+  run_id: 'the ID of the workflow run',
+  run_attempt: 'the attempt of the workflow run',
+  job: 'the ID of the job',
+  sha: 'the commit',
+  sha7: 'the first 7 characters of the commit'
+}
+
+/**
+ * Reads the values of the placeholders from the workflow context
+ *
+ * @returns The values, without the placeholders that are not available
+ */
+export async function getNameContext(): Promise<Record<string, string>> {
+  const env = process.env
+  const [owner, repo] = (env.GITHUB_REPOSITORY || '').split('/')
+  const payload = await getEventPayload()
+  const pullRequest = payload.pull_request as { number?: number } | undefined
+
+  const context: Record<string, string | undefined> = {
+    owner,
+    repo,
+    pr: pullRequest?.number?.toString(),
+    branch: env.GITHUB_HEAD_REF || env.GITHUB_REF_NAME,
+    run_id: env.GITHUB_RUN_ID,
+    run_attempt: env.GITHUB_RUN_ATTEMPT,
+    job: env.GITHUB_JOB,
+    sha: env.GITHUB_SHA,
+    sha7: env.GITHUB_SHA?.slice(0, 7)
+  }
+  return Object.fromEntries(
+    Object.entries(context).filter(
+      (entry): entry is [string, string] => !!entry[1]
+    )
+  )
+}
+
+/**
+ * Truncates a name to the longest valid length
+ *
+ * @param name - The name
+ * @param reserved - Number of characters to leave for a suffix
+ * @returns The name, without separators at its end
+ */
+export function truncateName(name: string, reserved = 0): string {
+  return name.slice(0, MAX_NAME_LENGTH - reserved).replace(/[ ._-]+$/, '')
+}
+
+/**
+ * Replaces the placeholders of a name template, e.g. {repo}-{pr}-{sha7}
+ * Characters of the values that are not allowed in names, e.g. the / of a
+ * branch, are replaced with -, and the name is truncated if the values make it
+ * too long. The template itself is not changed, so that mistakes in it are
+ * still reported
+ *
+ * @param template - The name input
+ * @param context - The values of the placeholders
+ * @returns The name
+ * @throws InputError if a placeholder is unknown or not available
+ */
+export function resolveNameTemplate(
+  template: string,
+  context: Record<string, string>
+): string {
+  let resolved = false
+  const name = template.replace(/\{(\w+)\}/g, (_, placeholder: string) => {
+    if (!(placeholder in PLACEHOLDERS)) {
+      throw new InputError(
+        `Invalid name: unknown placeholder {${placeholder}}. Must be one of: ${Object.keys(
+          PLACEHOLDERS
+        )
+          .map((name) => `{${name}}`)
+          .join(', ')}`
+      )
+    }
+    if (!(placeholder in context)) {
+      throw new InputError(
+        `Invalid name: {${placeholder}} is ${PLACEHOLDERS[placeholder]}, which is not available in this workflow`
+      )
+    }
+    resolved = true
+    return context[placeholder].replace(/[^A-Za-z0-9 ._-]+/g, '-')
+  })
+  return resolved ? truncateName(name) : name
+}
+
+/**
+ * Turns a name template into a pattern matching the names it produces
+ * Placeholders match any text, and the name may be followed by a suffix such
+ * as the random suffix, a number or the alias of the parent service
+ *
+ * @param template - The name input, e.g. {repo}-{pr}
+ * @returns The pattern, e.g. /^.+-.+(-.+)?$/
+ */
+export function templateToPattern(template: string): RegExp {
+  const source = template
+    .split(/\{\w+\}/)
+    .map((text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.+')
+  return new RegExp(`^${source}(-.+)?$`)
+}
+
+/**
+ * Appends a random suffix to a name, e.g. pr-42-3f9a1c
+ *
+ * @param name - The name
+ * @returns The name with the suffix, truncated to a valid length
+ */
+export function addRandomSuffix(name: string): string {
+  const suffix = randomBytes(RANDOM_SUFFIX_LENGTH / 2).toString('hex')
+  return `${truncateName(name, RANDOM_SUFFIX_LENGTH + 1)}-${suffix}`
+}
+
+/**
+ * Finds a name that no existing service has, by numbering the name
+ *
+ * @param name - The wanted name
+ * @param services - The services of the project
+ * @param collision - Whether to fail or number the name when it is taken
+ * @returns The name, or the first free numbered name, e.g. pr-42-2
+ * @throws InputError if the name is taken and collision is fail
+ */
+export function avoidNameCollision(
+  name: string,
+  services: Service[],
+  collision: NameCollision
+): string {
+  const live = services.filter(
+    (service) => service.status !== 'DELETING' && service.status !== 'DELETED'
+  )
+  const taken = new Set(live.map((service) => service.name))
+  if (collision === 'allow' || !taken.has(name)) {
+    return name
+  }
+  if (collision === 'fail') {
+    const existing = live.find((service) => service.name === name)
+    throw new InputError(
+      `Invalid name: ${name} is already used by service ${existing?.service_id}. Set name_collision to suffix to number the name instead`
+    )
+  }
+  for (let number = 2; ; number++) {
+    const suffix = `-${number}`
+    const candidate = `${truncateName(name, suffix.length)}${suffix}`
+    if (!taken.has(candidate)) {
+      return candidate
+    }
+  }
+}
@@ -0,0 +1,311 @@
+/**
+ * Fork policy of the repository
+ *
+ * The API key allows forking any service of the project with any resources.
+ * A policy file in the repository narrows that down: which services can be
+ * forked from which branches and events, how large forks can be, which
+ * strategies can be used and whether forks must be cleaned up.
+ */
+import { readFile } from 'node:fs/promises'
+import { parse } from 'yaml'
+import { InputError } from './errors.js'
+
+/**
+ * Where the policy is read from when the policy_file input is not set
+ */
+export const DEFAULT_POLICY_FILE = '.github/tigerdata-fork-policy.yml'
+
+/**
+ * A service that can be forked, and where from
+ */
+export interface PolicyService {
+  serviceId: string
+  /** Branches the service can be forked from, in addition to the policy's */
+  branches?: string[]
+  /** Events the service can be forked from, in addition to the policy's */
+  events?: string[]
+}
+
+/**
+ * The fork policy; rules that are not set do not restrict anything
+ */
+export interface ForkPolicy {
+  /** The policy file, for error messages */
+  path: string
+  services?: PolicyService[]
+  /** Branch patterns, * matches within a path segment and ** across */
+  branches?: string[]
+  events?: string[]
+  maxCpuMillis?: number
+  maxMemoryGbs?: number
+  /** Strategies as written in the fork_strategy input */
+  strategies?: string[]
+  requireCleanup: boolean
+}
+
+/**
+ * What a run is about to do, to be checked against the policy
+ */
+export interface ForkPlan {
+  serviceIds: string[]
+  /** The fork_strategy input */
+  strategy: string
+  cpuMillis?: string
+  memoryGbs?: string
+  /** Whether the forks are deleted or paused at some point */
+  cleanup: boolean
+  branch?: string
+  event?: string
+}
+
+/**
+ * Reads a list of strings from the policy
+ *
+ * @param value - The value in the policy file
+ * @param key - The key, for the error message
+ * @param path - The policy file, for the error message
+ * @returns The list, or undefined if the key is not set
+ */
+function readList(
+  value: unknown,
+  key: string,
+  path: string
+): string[] | undefined {
+  if (value === undefined || value === null) {
+    return undefined
+  }
+  if (!Array.isArray(value) || !value.every((v) => typeof v === 'string')) {
+    throw new InputError(
+      `Invalid policy_file: ${key} in ${path} must be a list of strings`
+    )
+  }
+  return value
+}
+
+/**
+ * Reads a positive number from the policy
+ *
+ * @param value - The value in the policy file
+ * @param key - The key, for the error message
+ * @param path - The policy file, for the error message
+ * @returns The number, or undefined if the key is not set
+ */
+function readLimit(
+  value: unknown,
+  key: string,
+  path: string
+): number | undefined {
+  if (value === undefined || value === null) {
+    return undefined
+  }
+  if (typeof value !== 'number' || !(value > 0)) {
+    throw new InputError(
+      `Invalid policy_file: ${key} in ${path} must be a positive number`
+    )
+  }
+  return value
+}
+
+/**
+ * Reads the fork policy from a YAML or JSON file
+ *
+ * The file looks like
+ *
+ *   services:
+ *     - service-789
+ *     - service_id: service-012
+ *       branches: [main]
+ *   branches: ['feature/*']
+ *   events: [pull_request]
+ *   max_cpu_millis: 2000
+ *   max_memory_gbs: 8
+ *   strategies: [now, last-snapshot]
+ *   require_cleanup: true
+ *
+ * @param path - The policy file, or an empty string for the default file,
+ *   which is optional
+ * @returns The policy, or undefined if there is none
+ * @throws InputError if the file cannot be read or is invalid
+ */
+export async function loadPolicy(
+  path: string
+): Promise<ForkPolicy | undefined> {
+  const file = path || DEFAULT_POLICY_FILE
+  let document: Record<string, unknown> | null
+  try {
+    document = parse(await readFile(file, 'utf8'))
+  } catch (error) {
+    if (!path && (error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined
+    }
+    throw new InputError(
+      `Invalid policy_file: ${file} could not be read (${error instanceof Error ? error.message : String(error)})`
+    )
+  }
+  if (typeof document !== 'object' || document === null) {
+    throw new InputError(`Invalid policy_file: ${file} must contain a mapping`)
+  }
+
+  const services = document.services
+  if (services !== undefined && !Array.isArray(services)) {
+    throw new InputError(
+      `Invalid policy_file: services in ${file} must be a list`
+    )
+  }
+  if (
+    document.require_cleanup !== undefined &&
+    typeof document.require_cleanup !== 'boolean'
+  ) {
+    throw new InputError(
+      `Invalid policy_file: require_cleanup in ${file} must be true or false`
+    )
+  }
+
+  return {
+    path: file,
+    services: services?.map((service: unknown, index): PolicyService => {
+      if (typeof service === 'string') {
+        return { serviceId: service }
+      }
+      const entry = service as Record<string, unknown> | null
+      if (typeof entry?.service_id !== 'string') {
+        throw new InputError(
+          `Invalid policy_file: service ${index + 1} in ${file} must be a service ID or have a service_id`
+        )
+      }
+      return {
+        serviceId: entry.service_id,
+        branches: readList(entry.branches, 'branches', file),
+        events: readList(entry.events, 'events', file)
+      }
+    }),
+    branches: readList(document.branches, 'branches', file),
+    events: readList(document.events, 'events', file),
+    maxCpuMillis: readLimit(document.max_cpu_millis, 'max_cpu_millis', file),
+    maxMemoryGbs: readLimit(document.max_memory_gbs, 'max_memory_gbs', file),
+    strategies: readList(document.strategies, 'strategies', file)?.map(
+      (strategy) => strategy.toLowerCase()
+    ),
+    requireCleanup: document.require_cleanup === true
+  }
+}
+
+/**
+ * Matches a branch against a pattern, where * matches within a path segment
+ * and ** across segments, like the branch filters of workflows
+ *
+ * @param branch - The branch
+ * @param pattern - The pattern, e.g. release/*
+ * @returns Whether the branch matches
+ */
+function matchBranch(branch: string, pattern: string): boolean {
+  const source = pattern
+    .split('**')
+    .map((part) =>
+      part
+        .split('*')
+        .map((text) => text.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('[^/]*')
+    )
+    .join('.*')
+  return new RegExp(`^${source}$`).test(branch)
+}
+
+/**
+ * Checks a resource against its limit
+ *
+ * @param value - The cpu_millis or memory_gbs input
+ * @param limit - The limit of the policy
+ * @param input - The input name, for the message
+ * @param unit - The unit of the limit, for the message
+ * @returns The violation, if any
+ */
+function checkLimit(
+  value: string | undefined,
+  limit: number | undefined,
+  input: string,
+  unit: string
+): string | undefined {
+  if (limit === undefined || value === 'shared') {
+    return undefined
+  }
+  if (!value) {
+    return `${input} is not set, so the fork would get the resources of its parent, which may exceed the limit of ${limit} ${unit}. Set ${input} to at most ${limit}`
+  }
+  if (Number(value) > limit) {
+    return `${input} ${value} exceeds the limit of ${limit} ${unit}`
+  }
+}
+
+/**
+ * Checks what a run is about to do against the policy
+ *
+ * @param policy - The policy
+ * @param plan - The services to fork and how
+ * @returns The rules the run violates, explained
+ */
+export function checkPolicy(policy: ForkPolicy, plan: ForkPlan): string[] {
+  const violations: string[] = []
+
+  for (const serviceId of plan.serviceIds) {
+    const service = policy.services?.find(
+      (entry) => entry.serviceId === serviceId
+    )
+    if (policy.services && !service) {
+      violations.push(
+        `service ${serviceId} is not allowed to be forked, allowed services are: ${policy.services.map((entry) => entry.serviceId).join(', ')}`
+      )
+      continue
+    }
+
+    const branches = [...(policy.branches ?? []), ...(service?.branches ?? [])]
+    if (
+      branches.length > 0 &&
+      !branches.some(
+        (pattern) => plan.branch && matchBranch(plan.branch, pattern)
+      )
+    ) {
+      violations.push(
+        `service ${serviceId} cannot be forked from ${plan.branch ? `branch ${plan.branch}` : 'an unknown branch'}, allowed branches are: ${branches.join(', ')}`
+      )
+    }
+
+    const events = [...(policy.events ?? []), ...(service?.events ?? [])]
+    if (events.length > 0 && !(plan.event && events.includes(plan.event))) {
+      violations.push(
+        `service ${serviceId} cannot be forked from ${plan.event ? `${plan.event} events` : 'an unknown event'}, allowed events are: ${events.join(', ')}`
+      )
+    }
+  }
+
+  const cpu = checkLimit(
+    plan.cpuMillis,
+    policy.maxCpuMillis,
+    'cpu_millis',
+    'milli-cores'
+  )
+  const memory = checkLimit(
+    plan.memoryGbs,
+    policy.maxMemoryGbs,
+    'memory_gbs',
+    'GB'
+  )
+  violations.push(...[cpu, memory].filter((v): v is string => !!v))
+
+  if (
+    policy.strategies &&
+    !policy.strategies.includes(plan.strategy.toLowerCase())
+  ) {
+    violations.push(
+      `fork_strategy ${plan.strategy} is not allowed, allowed strategies are: ${policy.strategies.join(', ')}`
+    )
+  }
+
+  if (policy.requireCleanup && !plan.cleanup) {
+    violations.push(
+      'cleanup is never, but forks must be cleaned up. Set cleanup to always, on-success or on-failure'
+    )
+  }
+
+  return violations
+}
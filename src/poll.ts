@@ -1,9 +1,11 @@
 /**
  * Polling utilities for waiting on asynchronous operations
  */
-import * as core from '@actions/core'
-import { getService } from './api.js'
-import type { DeployStatus } from './types.js'
+import { io } from './io.js'
+import { getService, type ApiOptions } from './api.js'
+import { ApiRequestError, TerminalStateError, TimeoutError } from './errors.js'
+import { sleep } from './time.js'
+import type { DeployStatus, Service } from './types.js'
 
 /**
  * Terminal states that indicate the service will not become ready
@@ -11,95 +13,399 @@ import type { DeployStatus } from './types.js'
 const TERMINAL_ERROR_STATES: DeployStatus[] = ['DELETED', 'UNSTABLE']
 
 /**
- * Sleep for a specified number of milliseconds
+ * Options for waiting on a service
+ */
+export interface WaitOptions {
+  /** Maximum time to wait in milliseconds (default: 30 minutes) */
+  timeoutMs?: number
+  /** Initial polling interval in milliseconds (default: 1 second) */
+  intervalMs?: number
+  /**
+   * Upper bound for the polling interval in milliseconds (default: 10 seconds)
+   * The interval grows while the status stays the same and is reset to
+   * intervalMs whenever the status changes
+   */
+  maxIntervalMs?: number
+  /** Factor applied to the interval after each unchanged poll (default: 1.5) */
+  backoffFactor?: number
+  /** Log status updates every N milliseconds (default: 10 seconds) */
+  logIntervalMs?: number
+  /** Status reported when the operation started, e.g. by the fork call */
+  initialStatus?: DeployStatus
+  /** Options passed to the API client */
+  api?: ApiOptions
+}
+
+/**
+ * A phase of the service lifecycle observed while waiting
+ */
+export interface StatusTransition {
+  /** The status of the service during this phase */
+  status: DeployStatus
+  /** When the status was first observed (ISO 8601) */
+  started_at: string
+  /** How long the service stayed in this status in milliseconds */
+  duration_ms: number
+}
+
+/**
+ * Result of waiting for a service to become ready
+ */
+export interface WaitResult {
+  /** The service as reported once it is ready */
+  service: Service
+  /** Every status the service went through, in order */
+  timeline: StatusTransition[]
+}
+
+/**
+ * Records an observed status, starting a new phase if it changed
  *
- * @param ms - Milliseconds to sleep
+ * @param timeline - The timeline to update
+ * @param status - The observed status
+ * @param now - The time of the observation in milliseconds
+ * @returns True if the status differs from the previous phase
  */
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms))
+function recordStatus(
+  timeline: StatusTransition[],
+  status: DeployStatus,
+  now: number
+): boolean {
+  const current = timeline[timeline.length - 1]
+  if (current) {
+    current.duration_ms = now - Date.parse(current.started_at)
+    if (current.status === status) {
+      return false
+    }
+  }
+
+  timeline.push({
+    status,
+    started_at: new Date(now).toISOString(),
+    duration_ms: 0
+  })
+  return true
+}
+
+/**
+ * Formats a status timeline as one line per phase
+ *
+ * @param timeline - The timeline to format
+ * @returns The formatted lines
+ */
+export function formatTimeline(timeline: StatusTransition[]): string[] {
+  return timeline.map(
+    (phase) =>
+      `${phase.status.padEnd(12)} ${(phase.duration_ms / 1000).toFixed(1)}s (since ${phase.started_at})`
+  )
+}
+
+/**
+ * Creates a signal that aborts once the timeout is reached
+ * The deadline aborts in-flight requests and sleeps, so a hanging status
+ * check cannot keep the poller waiting past the timeout
+ *
+ * @param timeoutMs - The timeout in milliseconds
+ * @param createError - Creates the abort reason when the timeout is reached
+ * @param parent - A signal that also aborts the returned signal
+ * @returns The signal and a function that clears the timer
+ */
+function createDeadline(
+  timeoutMs: number,
+  createError: () => TimeoutError,
+  parent?: AbortSignal
+): { signal: AbortSignal; clear: () => void } {
+  const deadline = new AbortController()
+  const timer = setTimeout(() => deadline.abort(createError()), timeoutMs)
+
+  return {
+    signal: parent
+      ? AbortSignal.any([parent, deadline.signal])
+      : deadline.signal,
+    clear: () => clearTimeout(timer)
+  }
 }
 
 /**
  * Waits for a forked service to be ready
  *
+ * Status checks run inside a collapsible log group, and every status
+ * transition is recorded together with the time spent in each phase.
+ *
  * @param projectId - The project ID
  * @param serviceId - The service ID to poll
  * @param apiKey - The API key for authentication
- * @param timeoutMs - Maximum time to wait in milliseconds (default: 30 minutes)
- * @param intervalMs - Polling interval in milliseconds (default: 1 second)
- * @param logIntervalMs - Log status updates every N milliseconds (default: 10 seconds)
- * @returns The service when it's ready
- * @throws Error if timeout is reached or service enters an error state
+ * @param options - Timeout, polling interval and API client options
+ * @returns The service when it's ready and its status timeline
+ * @throws TimeoutError if the timeout is reached
+ * @throws TerminalStateError if the service enters an error state
+ * @throws ApiRequestError if the API rejects the status check
  */
 export async function waitForServiceReady(
   projectId: string,
   serviceId: string,
   apiKey: string,
-  timeoutMs: number = 30 * 60 * 1000, // 30 minutes default
-  intervalMs: number = 1 * 1000, // 1 second default
-  logIntervalMs: number = 10 * 1000 // Log every 10 seconds
-): Promise<void> {
+  options: WaitOptions = {}
+): Promise<WaitResult> {
+  const {
+    timeoutMs = 30 * 60 * 1000, // 30 minutes default
+    intervalMs = 1 * 1000, // 1 second default
+    maxIntervalMs = 10 * 1000, // Back off to at most 10 seconds
+    backoffFactor = 1.5,
+    logIntervalMs = 10 * 1000 // Log every 10 seconds
+  } = options
   const startTime = Date.now()
   let nextLogTime = startTime + logIntervalMs
+  let currentIntervalMs = intervalMs
+  const timeline: StatusTransition[] = []
 
-  core.info(
-    `Waiting for service ${serviceId} to be ready (timeout: ${timeoutMs / 1000}s)...`
+  if (options.initialStatus) {
+    recordStatus(timeline, options.initialStatus, startTime)
+  }
+
+  const { signal, clear } = createDeadline(
+    timeoutMs,
+    () =>
+      new TimeoutError(
+        `Timeout: Service ${serviceId} did not become ready within ${timeoutMs / 1000} seconds`,
+        timeoutMs
+      ),
+    options.api?.signal
   )
+  const api: ApiOptions = { ...options.api, signal }
 
-  while (true) {
-    const now = Date.now()
-    const elapsed = Math.round((now - startTime) / 1000)
+  try {
+    while (true) {
+      const elapsed = Math.round((Date.now() - startTime) / 1000)
 
-    // Check timeout
-    if (now - startTime > timeoutMs) {
-      throw new Error(
-        `Timeout: Service ${serviceId} did not become ready within ${timeoutMs / 1000} seconds`
-      )
-    }
+      try {
+        const service = await getService(projectId, serviceId, apiKey, api)
 
-    try {
-      const service = await getService(projectId, serviceId, apiKey)
+        io.debug(
+          `Service ${serviceId} status: ${service.status} (elapsed: ${elapsed}s)`
+        )
 
-      core.debug(
-        `Service ${serviceId} status: ${service.status} (elapsed: ${elapsed}s)`
-      )
+        if (recordStatus(timeline, service.status, Date.now())) {
+          io.info(
+            `Service ${serviceId} is ${service.status} (elapsed: ${elapsed}s)`
+          )
+          currentIntervalMs = intervalMs
+        } else {
+          currentIntervalMs = Math.min(
+            maxIntervalMs,
+            Math.round(currentIntervalMs * backoffFactor)
+          )
+        }
 
-      // Check if service is ready
-      if (service.status === 'READY') {
-        core.info(`Service ${serviceId} is ready! (took ${elapsed}s)`)
-        return
-      }
+        // Check if service is ready
+        if (service.status === 'READY') {
+          io.info(`Service ${serviceId} is ready! (took ${elapsed}s)`)
+          return { service, timeline }
+        }
+
+        // Check for terminal error states
+        if (TERMINAL_ERROR_STATES.includes(service.status)) {
+          throw new TerminalStateError(service)
+        }
+
+        // Log status at regular intervals based on elapsed time from start
+        if (Date.now() >= nextLogTime) {
+          io.info(
+            `Service ${serviceId} status: ${service.status}. Still waiting... (elapsed: ${elapsed}s)`
+          )
+          nextLogTime += logIntervalMs
+        }
+      } catch (error) {
+        // Deadline reached or cancelled by the caller
+        signal.throwIfAborted()
 
-      // Check for terminal error states
-      if (TERMINAL_ERROR_STATES.includes(service.status)) {
-        throw new Error(
-          `Service ${serviceId} entered terminal state: ${service.status}`
+        if (error instanceof TerminalStateError) {
+          throw error
+        }
+
+        // Client errors such as 401, 403 or 404 will not go away by polling
+        if (error instanceof ApiRequestError && !error.transient) {
+          throw error
+        }
+
+        // For transient errors, log and retry (the service might be temporarily unavailable)
+        io.warning(
+          `Error checking service status: ${error instanceof Error ? error.message : String(error)}. Will retry...`
         )
       }
 
-      // Log status at regular intervals based on elapsed time from start
-      if (Date.now() >= nextLogTime) {
-        core.info(
-          `Service ${serviceId} status: ${service.status}. Still waiting... (elapsed: ${elapsed}s)`
-        )
-        nextLogTime += logIntervalMs
+      await sleep(currentIntervalMs, signal)
+    }
+  } finally {
+    clear()
+
+    // Also log the timeline on failure, to show which phase took too long
+    if (timeline.length > 0) {
+      recordStatus(timeline, timeline[timeline.length - 1].status, Date.now())
+      io.info(`Status timeline for service ${serviceId}:`)
+      for (const line of formatTimeline(timeline)) {
+        io.info(`  ${line}`)
       }
+    }
+  }
+}
 
-      await sleep(intervalMs)
-    } catch (error) {
-      // If it's already our error, rethrow it
-      if (error instanceof Error && error.message.includes('terminal state')) {
-        throw error
+/**
+ * Waits for a service that is being paused to finish pausing
+ * A service that is PAUSING cannot be resumed until it is PAUSED
+ *
+ * @param projectId - The project ID
+ * @param serviceId - The service ID to poll
+ * @param apiKey - The API key for authentication
+ * @param options - Timeout, polling interval and API client options
+ * @returns The service once it is no longer PAUSING
+ * @throws TimeoutError if the timeout is reached
+ * @throws ApiRequestError if the API rejects the status check
+ */
+export async function waitForServicePaused(
+  projectId: string,
+  serviceId: string,
+  apiKey: string,
+  options: WaitOptions = {}
+): Promise<Service> {
+  const {
+    timeoutMs = 5 * 60 * 1000, // 5 minutes default
+    intervalMs = 1 * 1000, // 1 second default
+    maxIntervalMs = 10 * 1000, // Back off to at most 10 seconds
+    backoffFactor = 1.5
+  } = options
+  let currentIntervalMs = intervalMs
+
+  const { signal, clear } = createDeadline(
+    timeoutMs,
+    () =>
+      new TimeoutError(
+        `Timeout: Service ${serviceId} was still PAUSING after ${timeoutMs / 1000} seconds`,
+        timeoutMs
+      ),
+    options.api?.signal
+  )
+  const api: ApiOptions = { ...options.api, signal }
+
+  io.info(
+    `Waiting for service ${serviceId} to be paused (timeout: ${timeoutMs / 1000}s)...`
+  )
+
+  try {
+    while (true) {
+      await sleep(currentIntervalMs, signal)
+      currentIntervalMs = Math.min(
+        maxIntervalMs,
+        Math.round(currentIntervalMs * backoffFactor)
+      )
+
+      try {
+        const service = await getService(projectId, serviceId, apiKey, api)
+        if (service.status !== 'PAUSING') {
+          io.info(`Service ${serviceId} is ${service.status}`)
+          return service
+        }
+        io.debug(`Service ${serviceId} status: ${service.status}`)
+      } catch (error) {
+        // Deadline reached or cancelled by the caller
+        signal.throwIfAborted()
+
+        if (error instanceof ApiRequestError && !error.transient) {
+          throw error
+        }
+
+        io.warning(
+          `Error checking service status: ${error instanceof Error ? error.message : String(error)}. Will retry...`
+        )
       }
-      if (error instanceof Error && error.message.includes('Timeout')) {
-        throw error
+    }
+  } finally {
+    clear()
+  }
+}
+
+/**
+ * Waits for a service to be deleted
+ * Deletion is asynchronous, the service goes through DELETING before it is
+ * DELETED and eventually no longer found
+ *
+ * @param projectId - The project ID
+ * @param serviceId - The service ID to poll
+ * @param apiKey - The API key for authentication
+ * @param options - Timeout, polling interval and API client options
+ * @throws TimeoutError if the timeout is reached
+ * @throws ApiRequestError if the API rejects the status check
+ */
+export async function waitForServiceDeleted(
+  projectId: string,
+  serviceId: string,
+  apiKey: string,
+  options: WaitOptions = {}
+): Promise<void> {
+  const {
+    timeoutMs = 5 * 60 * 1000, // 5 minutes default
+    intervalMs = 1 * 1000, // 1 second default
+    maxIntervalMs = 10 * 1000, // Back off to at most 10 seconds
+    backoffFactor = 1.5
+  } = options
+  const startTime = Date.now()
+  let currentIntervalMs = intervalMs
+  let lastStatus: DeployStatus = options.initialStatus || 'DELETING'
+
+  const { signal, clear } = createDeadline(
+    timeoutMs,
+    () =>
+      new TimeoutError(
+        `Timeout: Service ${serviceId} was not deleted within ${timeoutMs / 1000} seconds (last status: ${lastStatus})`,
+        timeoutMs
+      ),
+    options.api?.signal
+  )
+  const api: ApiOptions = { ...options.api, signal }
+
+  io.info(
+    `Waiting for service ${serviceId} to be deleted (timeout: ${timeoutMs / 1000}s)...`
+  )
+
+  try {
+    while (true) {
+      try {
+        const service = await getService(projectId, serviceId, apiKey, api)
+        lastStatus = service.status
+
+        if (service.status === 'DELETED') {
+          break
+        }
+        io.debug(`Service ${serviceId} status: ${service.status}`)
+      } catch (error) {
+        // Deadline reached or cancelled by the caller
+        signal.throwIfAborted()
+
+        // A deleted service is eventually no longer found
+        if (error instanceof ApiRequestError && error.status === 404) {
+          break
+        }
+
+        if (error instanceof ApiRequestError && !error.transient) {
+          throw error
+        }
+
+        io.warning(
+          `Error checking service status: ${error instanceof Error ? error.message : String(error)}. Will retry...`
+        )
       }
 
-      // For API errors, log and retry (the service might be temporarily unavailable)
-      core.warning(
-        `Error checking service status: ${error instanceof Error ? error.message : String(error)}. Will retry...`
+      await sleep(currentIntervalMs, signal)
+      currentIntervalMs = Math.min(
+        maxIntervalMs,
+        Math.round(currentIntervalMs * backoffFactor)
       )
-      await sleep(intervalMs)
     }
+  } finally {
+    clear()
   }
+
+  io.info(
+    `Service ${serviceId} is deleted (took ${Math.round((Date.now() - startTime) / 1000)}s)`
+  )
 }
@@ -0,0 +1,275 @@
+/**
+ * Connectivity probe for a forked service
+ *
+ * The API reports a service as READY before its DNS record has propagated or
+ * the database accepts connections, so the probe checks every layer a client
+ * goes through and retries until all of them succeed.
+ */
+import { io } from './io.js'
+import { lookup } from 'node:dns/promises'
+import { connect, type Socket } from 'node:net'
+import { createClient, type ConnectionInfo } from './connection.js'
+import { ConnectivityError } from './errors.js'
+import { sleep } from './time.js'
+
+/**
+ * Layers of a connection, in the order they are checked
+ */
+export type ProbeLayer = 'dns' | 'tcp' | 'ssl' | 'postgres'
+
+/**
+ * Options for probing a service
+ */
+export interface ProbeOptions {
+  /**
+   * Maximum time to keep retrying in milliseconds (default: 5 minutes)
+   * No attempt is started after the timeout, but a running attempt is
+   * allowed to finish
+   */
+  timeoutMs?: number
+  /** Delay between attempts in milliseconds (default: 2 seconds) */
+  intervalMs?: number
+  /** Time limit for a single attempt in milliseconds (default: 10 seconds) */
+  attemptTimeoutMs?: number
+  /** Aborts the probe, e.g. when the run is cancelled */
+  signal?: AbortSignal
+}
+
+/**
+ * Result of a successful probe
+ */
+export interface ProbeResult {
+  /** Number of attempts made */
+  attempts: number
+  /** Time until the service accepted a connection in milliseconds */
+  durationMs: number
+}
+
+/**
+ * Code of the SSLRequest message of the PostgreSQL protocol
+ */
+const SSL_REQUEST_CODE = 80877103
+
+/**
+ * Describes a layer, for the diagnosis
+ *
+ * @param layer - The layer
+ * @param info - The connection details
+ * @returns The description
+ */
+function describeLayer(layer: ProbeLayer, info: ConnectionInfo): string {
+  switch (layer) {
+    case 'dns':
+      return `DNS resolution of ${info.host}`
+    case 'tcp':
+      return `TCP connection to ${info.host}:${info.port}`
+    case 'ssl':
+      return 'SSL negotiation'
+    case 'postgres':
+      return `PostgreSQL startup and authentication as ${info.user}`
+  }
+}
+
+/**
+ * A failure of one layer during an attempt
+ */
+class LayerFailure extends Error {
+  readonly layer: ProbeLayer
+
+  constructor(layer: ProbeLayer, cause: unknown) {
+    super(cause instanceof Error ? cause.message : String(cause), { cause })
+    this.layer = layer
+  }
+}
+
+/**
+ * Runs a check of one layer, attributing its failure to the layer
+ * The check is abandoned when the signal aborts
+ *
+ * @param layer - The layer being checked
+ * @param signal - Aborts the check
+ * @param check - The check to run
+ * @returns The result of the check
+ */
+async function checkLayer<T>(
+  layer: ProbeLayer,
+  signal: AbortSignal,
+  check: () => Promise<T>
+): Promise<T> {
+  let onAbort: (() => void) | undefined
+  const aborted = new Promise<never>((_, reject) => {
+    onAbort = () => reject(signal.reason)
+    signal.addEventListener('abort', onAbort, { once: true })
+  })
+  try {
+    signal.throwIfAborted()
+    return await Promise.race([check(), aborted])
+  } catch (error) {
+    throw new LayerFailure(layer, error)
+  } finally {
+    if (onAbort) {
+      signal.removeEventListener('abort', onAbort)
+    }
+  }
+}
+
+/**
+ * Opens a TCP connection
+ *
+ * @param host - The host or address to connect to
+ * @param port - The port to connect to
+ * @param signal - Destroys the socket when aborted
+ * @returns The connected socket
+ */
+function openSocket(
+  host: string,
+  port: number,
+  signal: AbortSignal
+): Promise<Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = connect({ host, port })
+    const onAbort = (): void => {
+      socket.destroy()
+    }
+    signal.addEventListener('abort', onAbort, { once: true })
+    socket.once('connect', () => {
+      socket.off('error', reject)
+      resolve(socket)
+    })
+    socket.once('error', reject)
+    socket.once('close', () => signal.removeEventListener('abort', onAbort))
+  })
+}
+
+/**
+ * Sends an SSLRequest and checks that the server is willing to use SSL
+ *
+ * @param socket - A freshly opened connection
+ * @returns Resolves when the server accepts SSL
+ */
+function negotiateSsl(socket: Socket): Promise<void> {
+  return new Promise((resolve, reject) => {
+    socket.once('data', (data: Buffer) => {
+      const answer = String.fromCharCode(data[0])
+      if (answer === 'S') {
+        resolve()
+      } else if (answer === 'N') {
+        reject(new Error('the server does not accept SSL connections'))
+      } else {
+        reject(new Error(`unexpected response to SSLRequest: ${answer}`))
+      }
+    })
+    socket.once('error', reject)
+    socket.once('close', () =>
+      reject(new Error('the server closed the connection'))
+    )
+
+    const request = Buffer.alloc(8)
+    request.writeInt32BE(8, 0)
+    request.writeInt32BE(SSL_REQUEST_CODE, 4)
+    socket.write(request)
+  })
+}
+
+/**
+ * Checks every layer of a connection once
+ *
+ * @param info - The connection details
+ * @param signal - Aborts the attempt
+ */
+async function attemptConnection(
+  info: ConnectionInfo,
+  signal: AbortSignal
+): Promise<void> {
+  const { address } = await checkLayer('dns', signal, () => lookup(info.host))
+
+  const socket = await checkLayer('tcp', signal, () =>
+    openSocket(address, info.port, signal)
+  )
+  try {
+    if (info.sslmode !== 'disable') {
+      await checkLayer('ssl', signal, () => negotiateSsl(socket))
+    }
+  } finally {
+    socket.destroy()
+  }
+
+  const client = createClient(info, address)
+  try {
+    await checkLayer('postgres', signal, () => client.connect())
+  } finally {
+    await client.end().catch(() => undefined)
+  }
+}
+
+/**
+ * Probes a service until a client can connect and authenticate
+ *
+ * @param info - The connection details
+ * @param options - Probe options
+ * @returns The number of attempts and the time it took
+ * @throws ConnectivityError naming the layer that failed last if the service
+ *   does not accept a connection before the timeout
+ */
+export async function probeConnection(
+  info: ConnectionInfo,
+  options: ProbeOptions = {}
+): Promise<ProbeResult> {
+  const {
+    timeoutMs = 5 * 60 * 1000,
+    intervalMs = 2000,
+    attemptTimeoutMs = 10000,
+    signal
+  } = options
+  const startTime = Date.now()
+  const deadline = startTime + timeoutMs
+
+  io.info(
+    `Probing ${info.host}:${info.port} (timeout: ${timeoutMs / 1000}s)...`
+  )
+
+  for (let attempt = 1; ; attempt++) {
+    // Attempts are not cut short at the deadline, so that the last one can
+    // still tell which layer is failing rather than just timing out
+    const attemptController = new AbortController()
+    const timer = setTimeout(
+      () =>
+        attemptController.abort(
+          new Error(`timed out after ${attemptTimeoutMs / 1000} seconds`)
+        ),
+      attemptTimeoutMs
+    )
+    const attemptSignal = signal
+      ? AbortSignal.any([attemptController.signal, signal])
+      : attemptController.signal
+
+    try {
+      await attemptConnection(info, attemptSignal)
+      const durationMs = Date.now() - startTime
+      io.info(
+        `${info.host}:${info.port} accepted a connection after ${attempt} attempt(s) (took ${(durationMs / 1000).toFixed(1)}s)`
+      )
+      return { attempts: attempt, durationMs }
+    } catch (error) {
+      signal?.throwIfAborted()
+      if (!(error instanceof LayerFailure)) {
+        throw error
+      }
+
+      const failure = `${describeLayer(error.layer, info)} failed: ${error.message}`
+      if (Date.now() + intervalMs >= deadline) {
+        throw new ConnectivityError(
+          `Service at ${info.host}:${info.port} is not reachable after ${attempt} attempt(s) in ${((Date.now() - startTime) / 1000).toFixed(1)}s. ${failure}`,
+          error.layer,
+          { cause: error.cause }
+        )
+      }
+      io.info(
+        `Probe attempt ${attempt}: ${failure}; retrying in ${intervalMs / 1000}s...`
+      )
+      await sleep(intervalMs, signal)
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * Pull request lifecycle mode: one fork per pull request, like a preview
+ * environment that is created when the pull request is opened, kept up to date
+ * while it receives pushes and deleted when it is closed
+ */
+import { InputError } from './errors.js'
+import { getEventPayload, githubRequest } from './github.js'
+import { io } from './io.js'
+import type { Service } from './types.js'
+
+/**
+ * Marks the comment of the action, so that it is updated instead of posting a
+ * new comment on every run
+ */
+export const COMMENT_MARKER = '<!-- tigerdata-fork-service -->'
+
+/**
+ * Comments requested per page when looking for the comment of the action
+ */
+const COMMENTS_PER_PAGE = 100
+
+/**
+ * Events that trigger a workflow for a pull request
+ */
+const PULL_REQUEST_EVENTS = ['pull_request', 'pull_request_target']
+
+/**
+ * The pull request event that triggered the workflow
+ */
+export interface PullRequestEvent {
+  number: number
+  /** The activity, e.g. opened, synchronize or closed */
+  action: string
+  /** The head commit of the pull request */
+  headSha?: string
+}
+
+/**
+ * Comment of the GitHub REST API
+ */
+interface IssueComment {
+  id: number
+  body?: string
+}
+
+/**
+ * Reads the pull request event that triggered the workflow
+ *
+ * @returns The number of the pull request and the activity
+ * @throws InputError if the workflow was not triggered by a pull request
+ */
+export async function getPullRequestEvent(): Promise<PullRequestEvent> {
+  const eventName = process.env.GITHUB_EVENT_NAME || ''
+  if (!PULL_REQUEST_EVENTS.includes(eventName)) {
+    throw new InputError(
+      `mode pull-request requires a workflow triggered by ${PULL_REQUEST_EVENTS.join(' or ')}, not ${eventName || 'an unknown event'}`
+    )
+  }
+  const payload = await getEventPayload()
+  const pullRequest = payload.pull_request as
+    | { number?: number; head?: { sha?: string } }
+    | undefined
+  if (!pullRequest?.number || typeof payload.action !== 'string') {
+    throw new InputError(
+      'The event payload does not describe a pull request activity'
+    )
+  }
+  return {
+    number: pullRequest.number,
+    action: payload.action,
+    headSha: pullRequest.head?.sha
+  }
+}
+
+/**
+ * Escapes text for a cell of a markdown table, so that a name cannot end the
+ * cell or the row, or start a code span
+ *
+ * @param text - The text
+ * @returns The escaped text
+ */
+function escapeTableCell(text: string): string {
+  return text.replace(/\r?\n|\r/g, ' ').replace(/[\\|`]/g, '\\$&')
+}
+
+/**
+ * Formats the forks of a pull request for its comment, without passwords
+ *
+ * @param forks - The forks
+ * @param pr - The pull request
+ * @returns The comment body
+ */
+export function formatForksComment(
+  forks: Service[],
+  pr: PullRequestEvent
+): string {
+  const rows = forks.map(
+    (fork) =>
+      `| \`${escapeTableCell(fork.service_id)}\` | ${escapeTableCell(fork.name)} | ${fork.endpoint ? `\`${escapeTableCell(`${fork.endpoint.host}:${fork.endpoint.port}`)}\`` : '-'} | ${escapeTableCell(fork.status)} |`
+  )
+  return [
+    '### Database fork',
+    '',
+    '| Service | Name | Endpoint | Status |',
+    '| --- | --- | --- | --- |',
+    ...rows,
+    '',
+    `Updated for ${pr.headSha ? pr.headSha.slice(0, 7) : 'the latest commit'}. The fork is deleted when the pull request is closed.`
+  ].join('\n')
+}
+
+/**
+ * Posts the comment of the action on a pull request, or updates it if it was
+ * posted by an earlier run
+ * Failures are logged as warnings, the comment is not worth failing the run for
+ *
+ * @param pr - The pull request
+ * @param body - The comment, without the marker
+ * @param token - The GitHub token, needs the pull-requests write permission
+ */
+export async function upsertPullRequestComment(
+  pr: PullRequestEvent,
+  body: string,
+  token: string
+): Promise<void> {
+  const repository = process.env.GITHUB_REPOSITORY
+  try {
+    if (!token || !repository) {
+      throw new Error('no github_token or repository is available')
+    }
+    // The comment may be on any page of a busy pull request
+    let existing: IssueComment | undefined
+    for (let page = 1; !existing; page++) {
+      const comments = await githubRequest<IssueComment[]>(
+        `/repos/${repository}/issues/${pr.number}/comments?per_page=${COMMENTS_PER_PAGE}&page=${page}`,
+        token
+      )
+      existing = comments.find((comment) =>
+        comment.body?.startsWith(COMMENT_MARKER)
+      )
+      if (comments.length < COMMENTS_PER_PAGE) {
+        break
+      }
+    }
+    const request = {
+      method: existing ? 'PATCH' : 'POST',
+      body: JSON.stringify({ body: `${COMMENT_MARKER}\n${body}` })
+    }
+    if (existing) {
+      await githubRequest(
+        `/repos/${repository}/issues/comments/${existing.id}`,
+        token,
+        request
+      )
+    } else {
+      await githubRequest(
+        `/repos/${repository}/issues/${pr.number}/comments`,
+        token,
+        request
+      )
+    }
+  } catch (error) {
+    io.warning(
+      `Failed to update the comment on pull request #${pr.number}: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Concurrency limit of forks in a project
+ *
+ * Before a fork is created, the forks that follow the naming convention are
+ * counted. At the limit, the action waits with backoff until another run
+ * deletes or pauses one of them, or evicts the oldest fork itself.
+ */
+import { deleteService, listServices, type ApiOptions } from './api.js'
+import { ConcurrencyLimitError } from './errors.js'
+import { io } from './io.js'
+import { formatDuration, sleep } from './time.js'
+import type { Service } from './types.js'
+
+/**
+ * How many forks can exist at once and what to do at the limit
+ */
+export interface ConcurrencyOptions {
+  maxForks: number
+  /** The naming convention of the forks to count */
+  pattern: RegExp
+  /** The services whose forks are counted */
+  parentServiceIds: string[]
+  /** How long to wait for a free slot */
+  timeoutMs: number
+  /** Interval between checks, doubled after each check */
+  intervalMs: number
+  /** Upper bound of the interval between checks */
+  maxIntervalMs: number
+  /** Whether to delete the oldest fork instead of waiting */
+  evictOldest: boolean
+  /** Forks that must not be evicted, e.g. the ones created by this run */
+  keep: string[]
+  /** Cancels the wait, including the requests that list the forks */
+  signal?: AbortSignal
+}
+
+/**
+ * Finds the forks that take up a slot
+ * Forks that are being deleted do not count, paused forks do
+ *
+ * @param services - The services of the project
+ * @param options - The naming convention and the parent services
+ * @returns The forks, oldest first
+ */
+export function findCountedForks(
+  services: Service[],
+  options: Pick<ConcurrencyOptions, 'pattern' | 'parentServiceIds'>
+): Service[] {
+  return services
+    .filter(
+      (service) =>
+        service.forked_from !== undefined &&
+        options.parentServiceIds.includes(service.forked_from.service_id) &&
+        service.status !== 'DELETING' &&
+        service.status !== 'DELETED' &&
+        options.pattern.test(service.name)
+    )
+    .sort((a, b) => (a.created || '').localeCompare(b.created || ''))
+}
+
+/**
+ * Waits until fewer forks than the limit exist, or evicts the oldest fork
+ *
+ * @param projectId - The project ID
+ * @param apiKey - The API key for authentication
+ * @param options - The limit and what to do at the limit
+ * @param apiOptions - API client options
+ * @throws ConcurrencyLimitError if no slot is free before the timeout
+ */
+export async function waitForForkSlot(
+  projectId: string,
+  apiKey: string,
+  options: ConcurrencyOptions,
+  apiOptions: ApiOptions = {}
+): Promise<void> {
+  const deadline = Date.now() + options.timeoutMs
+  let interval = options.intervalMs
+  // The list may show an evicted fork until its deletion has started
+  const evicted: string[] = []
+
+  for (;;) {
+    const forks = findCountedForks(
+      await listServices(projectId, apiKey, {
+        ...apiOptions,
+        signal: options.signal
+      }),
+      options
+    ).filter((fork) => !evicted.includes(fork.service_id))
+    if (forks.length < options.maxForks) {
+      io.info(
+        `${forks.length} of ${options.maxForks} fork slots are taken, creating the fork`
+      )
+      return
+    }
+    const ids = forks.map((fork) => fork.service_id)
+
+    const evictable = forks.filter(
+      (fork) => !options.keep.includes(fork.service_id)
+    )
+    if (options.evictOldest && evictable.length > 0) {
+      // A cancelled run must not delete the fork of another run
+      options.signal?.throwIfAborted()
+      const oldest = evictable[0]
+      io.info(
+        `All ${options.maxForks} fork slots are taken (${ids.join(', ')}), evicting the oldest fork ${oldest.service_id} (${oldest.name}, created ${oldest.created || 'at an unknown time'})`
+      )
+      await deleteService(projectId, oldest.service_id, apiKey, apiOptions)
+      evicted.push(oldest.service_id)
+      continue
+    }
+
+    const remaining = deadline - Date.now()
+    if (remaining <= 0) {
+      throw new ConcurrencyLimitError(
+        `All ${options.maxForks} fork slots are still taken after ${formatDuration(options.timeoutMs)}: ${ids.join(', ')}`,
+        ids
+      )
+    }
+    const delay = Math.min(interval, remaining)
+    io.info(
+      `All ${options.maxForks} fork slots are taken (${ids.join(', ')}), checking again in ${formatDuration(delay)} (giving up in ${formatDuration(remaining)})`
+    )
+    await sleep(delay, options.signal)
+    interval = Math.min(interval * 2, options.maxIntervalMs)
+  }
+}
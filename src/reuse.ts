@@ -0,0 +1,70 @@
+/**
+ * Reuse of an existing fork across runs, e.g. for every push to a pull request
+ */
+import { io } from './io.js'
+import { randomBytes } from 'node:crypto'
+import { listServices, type ApiOptions } from './api.js'
+import type { DeployStatus, Service } from './types.js'
+
+/**
+ * States of a service that cannot be reused
+ */
+const UNUSABLE_STATES: DeployStatus[] = ['DELETING', 'DELETED', 'UNSTABLE']
+
+/**
+ * Looks up a fork of the parent service with the given name
+ * Services with the name that are not forks of the parent, including services
+ * that are not forks at all, are never reused, and neither are services that
+ * are being deleted or unstable
+ *
+ * @param projectId - The project ID
+ * @param parentServiceId - The service the fork must have been forked from
+ * @param name - The name of the fork
+ * @param apiKey - The API key for authentication
+ * @param options - API client options
+ * @returns The most recently created matching fork, or undefined
+ */
+export async function findReusableFork(
+  projectId: string,
+  parentServiceId: string,
+  name: string,
+  apiKey: string,
+  options: ApiOptions = {}
+): Promise<Service | undefined> {
+  const services = await listServices(projectId, apiKey, options)
+
+  const candidates = services.filter((service) => {
+    if (service.name !== name) {
+      return false
+    }
+    // Reusing a service resets its password and lets cleanup delete it
+    if (service.forked_from?.service_id !== parentServiceId) {
+      io.info(
+        `Service ${service.service_id} is named ${name} but is not a fork of ${parentServiceId}, not reusing it.`
+      )
+      return false
+    }
+    if (UNUSABLE_STATES.includes(service.status)) {
+      io.info(
+        `Service ${service.service_id} is named ${name} but is ${service.status}, not reusing it.`
+      )
+      return false
+    }
+    return true
+  })
+
+  return candidates.sort((a, b) =>
+    (b.created || '').localeCompare(a.created || '')
+  )[0]
+}
+
+/**
+ * Generates a password for a reused fork
+ * The password of an existing fork is only returned when it is created, so a
+ * reused fork gets a new one
+ *
+ * @returns The password
+ */
+export function generatePassword(): string {
+  return randomBytes(24).toString('base64url')
+}
@@ -0,0 +1,13 @@
+/**
+ * Standalone entrypoint for the local TigerData API simulator.
+ * Point the action's api_url input (or TIGERDATA_API_URL) at the printed URL.
+ */
+import { startSimulator } from './simulator.js'
+
+/* istanbul ignore next */
+startSimulator({
+  port: Number(process.env.SIMULATOR_PORT || 8080),
+  apiKey: process.env.SIMULATOR_API_KEY || undefined
+}).then((simulator) => {
+  console.log(`TigerData API simulator listening on ${simulator.url}`)
+})
@@ -0,0 +1,451 @@
+/**
+ * Local simulator for the TigerData Cloud API
+ *
+ * Implements the endpoints used by the action with scripted status transitions
+ * and injectable failures, so that the action can be run end to end without
+ * access to the real API.
+ */
+import {
+  createServer,
+  type IncomingMessage,
+  type ServerResponse
+} from 'node:http'
+import type { AddressInfo } from 'node:net'
+import type {
+  ApiError,
+  DeployStatus,
+  Endpoint,
+  ForkServiceRequest,
+  Service
+} from './types.js'
+
+/**
+ * Path prefix under which the simulated API is served, mirroring production
+ */
+const BASE_PATH = '/public/api/v1'
+
+/**
+ * API operations implemented by the simulator
+ */
+export type SimulatedOperation =
+  | 'forkService'
+  | 'getService'
+  | 'listServices'
+  | 'deleteService'
+  | 'pauseService'
+  | 'resumeService'
+  | 'updatePassword'
+
+/**
+ * A scripted failure returned instead of the normal response
+ */
+export interface SimulatorFault {
+  /** The operation to fail */
+  operation: SimulatedOperation
+  /** HTTP status code to respond with */
+  status: number
+  /** Number of consecutive requests to fail (default: 1) */
+  times?: number
+  /** Value of the Retry-After header in seconds */
+  retryAfter?: number
+  /** Error body to respond with */
+  body?: ApiError
+  /** Delay before responding in milliseconds, to simulate a hanging request */
+  delayMs?: number
+}
+
+/**
+ * Options for starting the simulator
+ */
+export interface SimulatorOptions {
+  /** Port to listen on (default: a random free port) */
+  port?: number
+  /** Host to listen on (default: 127.0.0.1) */
+  host?: string
+  /**
+   * Statuses a forked service goes through. The first one is returned by the
+   * fork call and each status check advances to the next one; the last status
+   * is kept (default: QUEUED, CONFIGURING, READY)
+   */
+  statuses?: DeployStatus[]
+  /**
+   * Statuses a deleted service goes through before it disappears. The last
+   * status is expected to be DELETED; once it has been returned the service is
+   * no longer found (default: DELETED)
+   */
+  deletionStatuses?: DeployStatus[]
+  /**
+   * Statuses a resumed service goes through; the last status is kept
+   * (default: RESUMING, READY)
+   */
+  resumeStatuses?: DeployStatus[]
+  /**
+   * Services that exist when the simulator starts, e.g. earlier forks
+   * A PAUSING service is PAUSED from the next status check on
+   */
+  existingServices?: Service[]
+  /**
+   * Endpoint reported for forked services, e.g. a local database for probing
+   * (default: a host under tsdb.cloud.timescale.com, port 5432)
+   */
+  endpoint?: Endpoint
+  /** Failures to inject, consumed in order per operation */
+  faults?: SimulatorFault[]
+  /** When set, requests authenticated with a different API key get a 401 */
+  apiKey?: string
+}
+
+/**
+ * A request received by the simulator
+ */
+export interface SimulatedRequest {
+  operation: SimulatedOperation | 'unknown'
+  method: string
+  path: string
+  body?: unknown
+}
+
+/**
+ * A running simulator instance
+ */
+export interface Simulator {
+  /** Base URL to use as the action's api_url */
+  url: string
+  /** Services known to the simulator, keyed by service ID */
+  services: Map<string, Service>
+  /** Requests received so far, in order */
+  requests: SimulatedRequest[]
+  /** Stops the simulator */
+  close(): Promise<void>
+}
+
+interface SimulatedService {
+  service: Service
+  pendingStatuses: DeployStatus[]
+}
+
+interface Route {
+  operation: SimulatedOperation
+  projectId: string
+  serviceId?: string
+}
+
+/**
+ * Matches a request to one of the simulated operations
+ *
+ * @param method - The HTTP method
+ * @param path - The request path relative to the base path
+ * @returns The matched route, or undefined if nothing matches
+ */
+function matchRoute(method: string, path: string): Route | undefined {
+  const list = path.match(/^\/projects\/([^/]+)\/services$/)
+  if (list && method === 'GET') {
+    return { operation: 'listServices', projectId: list[1] }
+  }
+
+  const match = path.match(
+    /^\/projects\/([^/]+)\/services\/([^/]+)(?:\/(forkService|stop|start|updatePassword))?$/
+  )
+  if (!match) {
+    return undefined
+  }
+
+  const [, projectId, serviceId, action] = match
+  const actions: Record<string, SimulatedOperation> = {
+    forkService: 'forkService',
+    stop: 'pauseService',
+    start: 'resumeService',
+    updatePassword: 'updatePassword'
+  }
+  if (action && method === 'POST') {
+    return { operation: actions[action], projectId, serviceId }
+  }
+  if (!action && method === 'GET') {
+    return { operation: 'getService', projectId, serviceId }
+  }
+  if (!action && method === 'DELETE') {
+    return { operation: 'deleteService', projectId, serviceId }
+  }
+  return undefined
+}
+
+/**
+ * Returns a service as reported after its creation
+ * The initial password is only returned when the service is created
+ *
+ * @param service - The service
+ * @returns A copy of the service without its password
+ */
+function withoutPassword(service: Service): Service {
+  const copy = { ...service }
+  delete copy.initial_password
+  return copy
+}
+
+/**
+ * Reads and parses a JSON request body
+ *
+ * @param req - The incoming request
+ * @returns The parsed body, or undefined if the body is empty
+ */
+async function readBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = []
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer)
+  }
+  const text = Buffer.concat(chunks).toString('utf8')
+  return text ? JSON.parse(text) : undefined
+}
+
+/**
+ * Writes a JSON response
+ *
+ * @param res - The server response
+ * @param status - The HTTP status code
+ * @param body - The body to serialize, or undefined for an empty body
+ * @param headers - Additional response headers
+ */
+function respond(
+  res: ServerResponse,
+  status: number,
+  body?: unknown,
+  headers: Record<string, string> = {}
+): void {
+  const payload = body === undefined ? '' : JSON.stringify(body)
+  res.writeHead(status, {
+    ...(payload ? { 'Content-Type': 'application/json' } : {}),
+    ...headers
+  })
+  res.end(payload)
+}
+
+/**
+ * Starts a local TigerData API simulator
+ *
+ * @param options - Simulator options
+ * @returns The running simulator
+ */
+export async function startSimulator(
+  options: SimulatorOptions = {}
+): Promise<Simulator> {
+  const statuses = options.statuses?.length
+    ? options.statuses
+    : (['QUEUED', 'CONFIGURING', 'READY'] as DeployStatus[])
+  const deletionStatuses = options.deletionStatuses?.length
+    ? options.deletionStatuses
+    : (['DELETED'] as DeployStatus[])
+  const faults = (options.faults || []).map((fault) => ({
+    ...fault,
+    remaining: fault.times ?? 1
+  }))
+  const expectedAuth = options.apiKey
+    ? `Basic ${Buffer.from(options.apiKey).toString('base64')}`
+    : undefined
+
+  const resumeStatuses = options.resumeStatuses?.length
+    ? options.resumeStatuses
+    : (['RESUMING', 'READY'] as DeployStatus[])
+
+  const simulated = new Map<string, SimulatedService>()
+  const services = new Map<string, Service>()
+  for (const service of options.existingServices || []) {
+    const copy = { ...service }
+    simulated.set(copy.service_id, {
+      service: copy,
+      pendingStatuses: copy.status === 'PAUSING' ? ['PAUSED'] : []
+    })
+    services.set(copy.service_id, copy)
+  }
+  const requests: SimulatedRequest[] = []
+  let forkCount = 0
+
+  const handle = async (
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> => {
+    const method = req.method || 'GET'
+    const url = new URL(req.url || '/', 'http://localhost')
+    const path = url.pathname.startsWith(BASE_PATH)
+      ? url.pathname.slice(BASE_PATH.length)
+      : url.pathname
+    const body = await readBody(req)
+    const route = matchRoute(method, path)
+
+    requests.push({
+      operation: route?.operation || 'unknown',
+      method,
+      path,
+      body
+    })
+
+    if (!route) {
+      respond(res, 404, {
+        code: 'NOT_FOUND',
+        message: `No route for ${method} ${path}`
+      })
+      return
+    }
+
+    if (expectedAuth && req.headers.authorization !== expectedAuth) {
+      respond(res, 401, { code: 'UNAUTHORIZED', message: 'Invalid API key' })
+      return
+    }
+
+    const fault = faults.find(
+      (f) => f.operation === route.operation && f.remaining > 0
+    )
+    if (fault) {
+      fault.remaining--
+      if (fault.delayMs) {
+        await new Promise((resolve) => setTimeout(resolve, fault.delayMs))
+      }
+      respond(
+        res,
+        fault.status,
+        fault.body || {
+          code: `HTTP_${fault.status}`,
+          message: `Simulated failure for ${route.operation}`
+        },
+        fault.retryAfter !== undefined
+          ? { 'Retry-After': String(fault.retryAfter) }
+          : {}
+      )
+      return
+    }
+
+    if (route.operation === 'listServices') {
+      respond(
+        res,
+        200,
+        [...simulated.values()]
+          .filter((entry) => entry.service.project_id === route.projectId)
+          .map((entry) => withoutPassword(entry.service))
+      )
+      return
+    }
+
+    const serviceId = route.serviceId || ''
+    if (route.operation === 'forkService') {
+      const request = (body || {}) as Partial<ForkServiceRequest>
+      forkCount++
+      const forkId = `fork${String(forkCount).padStart(6, '0')}`
+      const service: Service = {
+        service_id: forkId,
+        project_id: route.projectId,
+        name: request.name || `${serviceId}-fork`,
+        region_code: 'us-east-1',
+        created: new Date().toISOString(),
+        initial_password: `password-${forkId}`,
+        paused: false,
+        status: statuses[0],
+        endpoint: options.endpoint || {
+          host: `${forkId}.${route.projectId}.tsdb.cloud.timescale.com`,
+          port: 5432
+        },
+        forked_from: { project_id: route.projectId, service_id: serviceId }
+      }
+      simulated.set(forkId, {
+        service,
+        pendingStatuses: statuses.slice(1)
+      })
+      services.set(forkId, service)
+      respond(res, 202, service)
+      return
+    }
+
+    const entry = simulated.get(serviceId)
+    if (!entry) {
+      respond(res, 404, {
+        code: 'NOT_FOUND',
+        message: `Service ${serviceId} not found`
+      })
+      return
+    }
+
+    switch (route.operation) {
+      case 'getService': {
+        const next = entry.pendingStatuses.shift()
+        if (next) {
+          entry.service.status = next
+        }
+        if (entry.service.status === 'DELETED') {
+          simulated.delete(serviceId)
+        }
+        respond(res, 200, withoutPassword(entry.service))
+        return
+      }
+
+      case 'deleteService': {
+        entry.service.status = deletionStatuses[0]
+        entry.pendingStatuses = deletionStatuses.slice(1)
+        if (entry.service.status === 'DELETED') {
+          simulated.delete(serviceId)
+        }
+        respond(res, 202)
+        return
+      }
+
+      case 'pauseService': {
+        entry.service.status = 'PAUSED'
+        entry.service.paused = true
+        entry.pendingStatuses = []
+        respond(res, 202, withoutPassword(entry.service))
+        return
+      }
+
+      case 'resumeService': {
+        entry.service.status = resumeStatuses[0]
+        entry.service.paused = false
+        entry.pendingStatuses = resumeStatuses.slice(1)
+        respond(res, 202, withoutPassword(entry.service))
+        return
+      }
+
+      case 'updatePassword': {
+        const { password } = (body || {}) as { password?: string }
+        if (!password) {
+          respond(res, 400, {
+            code: 'BAD_REQUEST',
+            message: 'password is required'
+          })
+          return
+        }
+        entry.service.initial_password = password
+        respond(res, 204)
+        return
+      }
+    }
+  }
+
+  const server = createServer((req, res) => {
+    handle(req, res).catch((error: unknown) => {
+      respond(res, 500, {
+        code: 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : String(error)
+      })
+    })
+  })
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject)
+    server.listen(options.port ?? 0, options.host || '127.0.0.1', () => {
+      server.off('error', reject)
+      resolve()
+    })
+  })
+
+  const address = server.address() as AddressInfo
+  const host =
+    address.family === 'IPv6' ? `[${address.address}]` : address.address
+
+  return {
+    url: `http://${host}:${address.port}${BASE_PATH}`,
+    services,
+    requests,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()))
+        server.closeAllConnections()
+      })
+  }
+}
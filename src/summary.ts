@@ -0,0 +1,259 @@
+/**
+ * Job summary reporting
+ *
+ * The summary is written through `io`, so nothing is written where there is no
+ * job summary, e.g. in the CLI. Text that comes from inputs, the API or errors
+ * is HTML-escaped, as the cells of summary tables are HTML.
+ */
+import { io } from './io.js'
+import { formatDuration } from './time.js'
+import type { SweptService } from './sweep.js'
+
+/**
+ * A fork as shown in the job summary
+ */
+export interface SummarizedFork {
+  serviceId: string
+  name: string
+  parentServiceId: string
+  region: string
+  status: string
+  /** Connection string with the password redacted */
+  connection?: string
+  reused: boolean
+}
+
+/**
+ * Everything about the forks of a run, for the job summary
+ */
+export interface ForkSummary {
+  strategy: string
+  /** The resolved target time of point-in-time forks */
+  targetTime?: string
+  cpuMillis?: string
+  memoryGbs?: string
+  /** When and how the forks are cleaned up */
+  cleanup: string
+  forks: SummarizedFork[]
+  /** Time spent per phase, in the order the phases started */
+  phases: { name: string; durationMs: number }[]
+  /** Why the run failed, if it did */
+  error?: string
+}
+
+/**
+ * Escapes text for an HTML table cell
+ *
+ * @param text - The text
+ * @returns The escaped text
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/**
+ * Formats the duration of a phase, e.g. 0.4s or 2m 5s
+ *
+ * @param ms - The duration in milliseconds
+ * @returns The formatted duration
+ */
+function formatPhaseDuration(ms: number): string {
+  return ms < 60 * 1000 ? `${(ms / 1000).toFixed(1)}s` : formatDuration(ms)
+}
+
+/**
+ * Describes the resources requested for the forks
+ *
+ * @param cpuMillis - The cpu_millis of the request
+ * @param memoryGbs - The memory_gbs of the request
+ * @returns The description, e.g. 1000 milli-cores, 4 GB
+ */
+function formatResources(cpuMillis?: string, memoryGbs?: string): string {
+  if (cpuMillis === 'shared') {
+    return 'Shared'
+  }
+  if (!cpuMillis && !memoryGbs) {
+    return 'Same as parent'
+  }
+  return [
+    cpuMillis ? `${cpuMillis} milli-cores` : 'CPU of parent',
+    memoryGbs ? `${memoryGbs} GB` : 'memory of parent'
+  ].join(', ')
+}
+
+/**
+ * Writes the forks of a run, how they were requested and how long each phase
+ * took to the job summary
+ *
+ * @param forkSummary - The forks and their details, without passwords
+ */
+export async function writeForkSummary(
+  forkSummary: ForkSummary
+): Promise<void> {
+  const { forks, phases } = forkSummary
+  const summary = io.getSummary()
+  if (!summary) {
+    return
+  }
+  try {
+    summary.addHeading(
+      forks.length > 1 ? 'Forked services' : 'Forked service',
+      3
+    )
+    if (forks.length === 0) {
+      summary.addRaw('No fork was created.', true)
+    } else {
+      summary.addTable([
+        [
+          { data: 'Service', header: true },
+          { data: 'Name', header: true },
+          { data: 'Parent', header: true },
+          { data: 'Region', header: true },
+          { data: 'Status', header: true },
+          { data: 'Connection', header: true },
+          { data: 'Reused', header: true }
+        ],
+        ...forks.map((fork) => [
+          escapeHtml(fork.serviceId),
+          escapeHtml(fork.name),
+          escapeHtml(fork.parentServiceId),
+          escapeHtml(fork.region),
+          escapeHtml(fork.status),
+          fork.connection ? `<code>${escapeHtml(fork.connection)}</code>` : '-',
+          fork.reused ? 'Yes' : 'No'
+        ])
+      ])
+    }
+
+    summary.addTable([
+      [
+        { data: 'Setting', header: true },
+        { data: 'Value', header: true }
+      ],
+      ['Strategy', escapeHtml(forkSummary.strategy)],
+      ['Target time', escapeHtml(forkSummary.targetTime || '-')],
+      [
+        'Resources',
+        escapeHtml(
+          formatResources(forkSummary.cpuMillis, forkSummary.memoryGbs)
+        )
+      ],
+      ['Cleanup', escapeHtml(forkSummary.cleanup)],
+      [
+        'Outcome',
+        forkSummary.error ? `Failed: ${escapeHtml(forkSummary.error)}` : 'Ready'
+      ]
+    ])
+
+    if (phases.length > 0) {
+      const total = phases.reduce((sum, phase) => sum + phase.durationMs, 0)
+      summary.addHeading('Timings', 4).addTable([
+        [
+          { data: 'Phase', header: true },
+          { data: 'Duration', header: true }
+        ],
+        ...phases.map((phase) => [
+          escapeHtml(phase.name),
+          formatPhaseDuration(phase.durationMs)
+        ]),
+        ['Total', formatPhaseDuration(total)]
+      ])
+    }
+    await summary.write()
+  } catch (error) {
+    io.debug(
+      `Unable to write job summary: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+}
+
+/**
+ * Writes the outcome of cleaning up the forked services to the job summary
+ *
+ * @param outcomes - What happened to each service, e.g. Deleted or Kept, and
+ *   why or how it was verified
+ * @param durationMs - How long the cleanup took
+ */
+export async function writeCleanupSummary(
+  outcomes: { serviceId: string; result: string; details: string }[],
+  durationMs: number
+): Promise<void> {
+  const summary = io.getSummary()
+  if (!summary) {
+    return
+  }
+  try {
+    await summary
+      .addHeading('Forked service cleanup', 3)
+      .addTable([
+        [
+          { data: 'Service', header: true },
+          { data: 'Outcome', header: true },
+          { data: 'Details', header: true }
+        ],
+        ...outcomes.map((outcome) => [
+          escapeHtml(outcome.serviceId),
+          escapeHtml(outcome.result),
+          escapeHtml(outcome.details)
+        ])
+      ])
+      .addRaw(`Cleanup took ${formatPhaseDuration(durationMs)}.`, true)
+      .write()
+  } catch (error) {
+    io.debug(
+      `Unable to write job summary: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+}
+
+/**
+ * Writes the stale forks found by a sweep and what happened to them to the job
+ * summary
+ *
+ * @param results - The stale forks
+ * @param dryRun - Whether the forks were only reported
+ */
+export async function writeSweepSummary(
+  results: SweptService[],
+  dryRun: boolean
+): Promise<void> {
+  const summary = io.getSummary()
+  if (!summary) {
+    return
+  }
+  try {
+    summary.addHeading(`Stale fork sweep${dryRun ? ' (dry run)' : ''}`, 3)
+    if (results.length === 0) {
+      summary.addRaw('No stale forks found.', true)
+    } else {
+      summary.addTable([
+        [
+          { data: 'Service', header: true },
+          { data: 'Name', header: true },
+          { data: 'Created', header: true },
+          { data: 'Age', header: true },
+          { data: 'Outcome', header: true }
+        ],
+        ...results.map((result) => [
+          escapeHtml(result.service_id),
+          escapeHtml(result.name),
+          escapeHtml(result.created),
+          escapeHtml(result.age),
+          escapeHtml(
+            result.error ? `${result.outcome}: ${result.error}` : result.outcome
+          )
+        ])
+      ])
+    }
+    await summary.write()
+  } catch (error) {
+    io.debug(
+      `Unable to write job summary: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Sweeping of stale forks, e.g. left behind by cancelled runs or by jobs that
+ * do not clean up, from a scheduled workflow
+ */
+import { io } from './io.js'
+import {
+  deleteService,
+  listServices,
+  pauseService,
+  type ApiOptions
+} from './api.js'
+import { ApiRequestError } from './errors.js'
+import { formatDuration } from './time.js'
+import type { DeployStatus, Service } from './types.js'
+
+/**
+ * Which services are stale forks
+ */
+export interface SweepCriteria {
+  /** Names of forks start with this prefix */
+  prefix?: string
+  /** Names of forks match this pattern */
+  pattern?: RegExp
+  /** Forks created longer ago than this are stale, in milliseconds */
+  maxAgeMs: number
+  /** Only forks of these services are stale, unless empty */
+  parentServiceIds: string[]
+}
+
+/**
+ * What happens to stale forks
+ */
+export type SweepAction = 'delete' | 'pause'
+
+/**
+ * A stale fork and what happened to it
+ */
+export interface SweptService {
+  service_id: string
+  name: string
+  created: string
+  /** Age of the fork when it was swept, e.g. 3d 4h */
+  age: string
+  /** Deleted, Paused, Would delete, Would pause, Already deleted or Failed */
+  outcome: string
+  /** Why the sweep failed */
+  error?: string
+}
+
+/**
+ * States in which a service is already on its way out
+ */
+const GONE_STATES: DeployStatus[] = ['DELETING', 'DELETED']
+
+/**
+ * States in which a service does not need to be paused
+ */
+const PAUSED_STATES: DeployStatus[] = ['PAUSING', 'PAUSED']
+
+/**
+ * Whether a service name follows the naming convention of the forks
+ *
+ * @param name - The service name
+ * @param criteria - The criteria
+ * @returns Whether the name matches the prefix and the pattern, when given
+ */
+function matchesName(name: string, criteria: SweepCriteria): boolean {
+  if (criteria.prefix && !name.startsWith(criteria.prefix)) {
+    return false
+  }
+  return !criteria.pattern || criteria.pattern.test(name)
+}
+
+/**
+ * Selects the stale forks among the services of a project
+ * Services that are not forks, or without a name matching the criteria or a
+ * creation time, are never selected
+ *
+ * @param services - The services of the project
+ * @param criteria - Which services are stale forks
+ * @param action - What will happen to the forks
+ * @param now - The current time in milliseconds
+ * @returns The stale forks, oldest first
+ */
+export function findStaleForks(
+  services: Service[],
+  criteria: SweepCriteria,
+  action: SweepAction,
+  now = Date.now()
+): Service[] {
+  return services
+    .filter((service) => {
+      if (!service.forked_from || !matchesName(service.name || '', criteria)) {
+        return false
+      }
+      if (
+        criteria.parentServiceIds.length > 0 &&
+        !criteria.parentServiceIds.includes(service.forked_from.service_id)
+      ) {
+        return false
+      }
+      const created = Date.parse(service.created || '')
+      if (Number.isNaN(created) || now - created <= criteria.maxAgeMs) {
+        return false
+      }
+      if (GONE_STATES.includes(service.status)) {
+        return false
+      }
+      return !(
+        action === 'pause' &&
+        (service.paused || PAUSED_STATES.includes(service.status))
+      )
+    })
+    .sort((a, b) => (a.created || '').localeCompare(b.created || ''))
+}
+
+/**
+ * Deletes or pauses the stale forks of a project
+ * A fork that cannot be swept does not stop the others from being swept
+ *
+ * @param projectId - The project ID
+ * @param apiKey - The API key for authentication
+ * @param criteria - Which services are stale forks
+ * @param action - Whether to delete or pause the forks
+ * @param dryRun - Only report the forks that would be swept
+ * @param options - API client options
+ * @returns The stale forks and what happened to each
+ */
+export async function sweepForks(
+  projectId: string,
+  apiKey: string,
+  criteria: SweepCriteria,
+  action: SweepAction,
+  dryRun: boolean,
+  options: ApiOptions = {}
+): Promise<SweptService[]> {
+  const now = Date.now()
+  const services = await listServices(projectId, apiKey, options)
+  const stale = findStaleForks(services, criteria, action, now)
+  io.info(
+    `Found ${stale.length} stale fork(s) among ${services.length} service(s) in project ${projectId}`
+  )
+
+  const results: SweptService[] = []
+  for (const service of stale) {
+    // Stale forks always have a creation time
+    const created = service.created as string
+    const result: SweptService = {
+      service_id: service.service_id,
+      name: service.name,
+      created,
+      age: formatDuration(now - Date.parse(created)),
+      outcome: ''
+    }
+    const description = `${service.service_id} (${service.name}, created ${result.age} ago)`
+
+    if (dryRun) {
+      result.outcome = action === 'delete' ? 'Would delete' : 'Would pause'
+      io.info(`${result.outcome} stale fork ${description}`)
+      results.push(result)
+      continue
+    }
+
+    try {
+      if (action === 'delete') {
+        io.info(`Deleting stale fork ${description}...`)
+        await deleteService(projectId, service.service_id, apiKey, options)
+        result.outcome = 'Deleted'
+      } else {
+        io.info(`Pausing stale fork ${description}...`)
+        await pauseService(projectId, service.service_id, apiKey, options)
+        result.outcome = 'Paused'
+      }
+    } catch (error) {
+      if (error instanceof ApiRequestError && error.status === 404) {
+        io.info(`Stale fork ${service.service_id} no longer exists.`)
+        result.outcome = 'Already deleted'
+      } else {
+        result.outcome = 'Failed'
+        result.error = error instanceof Error ? error.message : String(error)
+        io.warning(
+          `Failed to ${action} stale fork ${service.service_id}: ${result.error}`
+        )
+      }
+    }
+    results.push(result)
+  }
+  return results
+}
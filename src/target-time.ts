@@ -0,0 +1,122 @@
+/**
+ * Resolution of target_time expressions to absolute timestamps
+ *
+ * Besides absolute timestamps, target_time accepts times relative to now, a
+ * time of today or yesterday, and the time of a commit, so that workflows do
+ * not have to compute dates in shell first.
+ */
+import { InputError } from './errors.js'
+import { getCommitTime, getEventPayload } from './github.js'
+import { parseDuration } from './time.js'
+
+/**
+ * The expressions accepted besides absolute timestamps, for error messages
+ */
+const EXPRESSIONS =
+  'an ISO 8601 timestamp such as 2025-10-01T15:29:00Z, a relative time such as -2h or -1d, "today 00:00 UTC", "yesterday 12:00 UTC", "commit", "commit:<sha>" or "pr-base"'
+
+/**
+ * Resolves a commit to its time, failing with an InputError
+ *
+ * @param expression - The target_time input, for the error message
+ * @param ref - The commit
+ * @param token - The GitHub token
+ * @returns The commit time
+ */
+async function resolveCommitTime(
+  expression: string,
+  ref: string,
+  token: string
+): Promise<string> {
+  try {
+    return new Date(await getCommitTime(ref, token)).toISOString()
+  } catch (error) {
+    throw new InputError(
+      `Invalid target_time: ${expression}. The time of commit ${ref} could not be looked up: ${error instanceof Error ? error.message : String(error)}`
+    )
+  }
+}
+
+/**
+ * Resolves a target_time input to an absolute timestamp
+ *
+ * Accepted expressions:
+ * - an absolute timestamp, returned as is, e.g. 2025-10-01T15:29:00Z
+ * - a duration before now, e.g. -2h, -90m or -1d
+ * - a time of today or yesterday in UTC, e.g. today 00:00 UTC
+ * - commit, the commit the workflow runs on, or commit:<sha>
+ * - pr-base, the head of the base branch of the pull request
+ *
+ * @param expression - The target_time input
+ * @param token - The GitHub token, to look up commits
+ * @param now - The current time in milliseconds
+ * @returns The resolved timestamp in UTC
+ * @throws InputError if the expression cannot be resolved
+ */
+export async function resolveTargetTime(
+  expression: string,
+  token: string,
+  now = Date.now()
+): Promise<string> {
+  const value = expression.trim()
+
+  // Absolute timestamps are checked by validateForkRequest
+  if (/^\d{4}-/.test(value)) {
+    return value
+  }
+
+  if (value.startsWith('-')) {
+    const duration = parseDuration(value.slice(1))
+    if (duration === undefined) {
+      throw new InputError(
+        `Invalid target_time: ${expression}. Must be ${EXPRESSIONS}`
+      )
+    }
+    return new Date(now - duration).toISOString()
+  }
+
+  const day = /^(today|yesterday)(?:\s+(\d{1,2}):(\d{2}))?(?:\s+UTC)?$/i.exec(
+    value
+  )
+  if (day) {
+    const [, name, hours = '0', minutes = '0'] = day
+    if (Number(hours) > 23 || Number(minutes) > 59) {
+      throw new InputError(
+        `Invalid target_time: ${expression}. Must be ${EXPRESSIONS}`
+      )
+    }
+    const date = new Date(now)
+    date.setUTCHours(Number(hours), Number(minutes), 0, 0)
+    if (name.toLowerCase() === 'yesterday') {
+      date.setUTCDate(date.getUTCDate() - 1)
+    }
+    return date.toISOString()
+  }
+
+  if (value === 'commit' || value.startsWith('commit:')) {
+    const ref = value === 'commit' ? process.env.GITHUB_SHA : value.slice(7)
+    if (!ref) {
+      throw new InputError(
+        `Invalid target_time: ${expression}. GITHUB_SHA is not set, use commit:<sha> instead`
+      )
+    }
+    return resolveCommitTime(expression, ref, token)
+  }
+
+  if (value === 'pr-base') {
+    const payload = await getEventPayload()
+    const pullRequest = payload.pull_request as
+      | { base?: { sha?: string } }
+      | undefined
+    if (!pullRequest?.base?.sha) {
+      throw new InputError(
+        `Invalid target_time: ${expression} can only be used in workflows triggered by a pull request`
+      )
+    }
+    return resolveCommitTime(expression, pullRequest.base.sha, token)
+  }
+
+  throw new InputError(
+    `Invalid target_time: ${expression}. Must be ${EXPRESSIONS}`
+  )
+}
@@ -0,0 +1,71 @@
+/**
+ * Time utilities shared by the API client and the poller
+ */
+
+/**
+ * Sleep for a specified number of milliseconds
+ *
+ * @param ms - Milliseconds to sleep
+ * @param signal - Aborts the sleep early, rejecting with the abort reason
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+
+    const onAbort = (): void => {
+      clearTimeout(timer)
+      reject(signal?.reason)
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * Milliseconds per unit of a duration
+ */
+const DURATION_UNITS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000
+}
+
+/**
+ * Parses a duration such as 90m, 24h or 7d
+ *
+ * @param value - A positive number followed by s, m, h or d
+ * @returns The duration in milliseconds, or undefined if the value is invalid
+ */
+export function parseDuration(value: string): number | undefined {
+  const match = /^(\d+(?:\.\d+)?)\s*([smhd])$/.exec(value.trim())
+  if (!match || !(Number(match[1]) > 0)) {
+    return undefined
+  }
+  return Number(match[1]) * DURATION_UNITS[match[2]]
+}
+
+/**
+ * Formats a duration with its two largest units, e.g. 3d 4h or 12m 5s
+ *
+ * @param ms - The duration in milliseconds
+ * @returns The formatted duration
+ */
+export function formatDuration(ms: number): string {
+  const parts: string[] = []
+  let remaining = Math.max(0, Math.floor(ms / 1000)) * 1000
+  for (const unit of ['d', 'h', 'm', 's']) {
+    const count = Math.floor(remaining / DURATION_UNITS[unit])
+    remaining -= count * DURATION_UNITS[unit]
+    if (count > 0 || parts.length > 0) {
+      parts.push(`${count}${unit}`)
+    }
+  }
+  return parts.slice(0, 2).join(' ') || '0s'
+}
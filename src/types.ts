@@ -56,6 +56,11 @@ export interface Service {
   paused?: boolean
   status: DeployStatus
   endpoint?: Endpoint
+  /** The service this service was forked from, if it is a fork */
+  forked_from?: {
+    project_id: string
+    service_id: string
+  }
   [key: string]: unknown
 }
 
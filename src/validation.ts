@@ -0,0 +1,132 @@
+/**
+ * Validation of fork requests before they are sent
+ *
+ * Catches mistakes in the inputs that the API would otherwise only report
+ * after a round trip, or that would create a fork that was not intended.
+ */
+import { InputError } from './errors.js'
+import type { ForkServiceRequest } from './types.js'
+
+/**
+ * Compute sizes of dedicated services, as milli-cores and GB of memory
+ */
+export const COMPUTE_SIZES: [string, string][] = [
+  ['500', '2'],
+  ['1000', '4'],
+  ['2000', '8'],
+  ['4000', '16'],
+  ['8000', '32'],
+  ['16000', '64'],
+  ['32000', '128']
+]
+
+/**
+ * Longest name a service can have
+ */
+export const MAX_NAME_LENGTH = 128
+
+/**
+ * Characters a service name can consist of
+ */
+export const NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9 ._-]*$/
+
+/**
+ * ISO 8601 timestamp with a time zone, e.g. 2025-10-01T15:29:00Z
+ */
+const TIMESTAMP_PATTERN =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/
+
+/**
+ * Checks the target time of a point-in-time fork
+ *
+ * @param targetTime - The target time
+ * @param now - The current time in milliseconds
+ * @returns The problem, if any
+ */
+function checkTargetTime(targetTime: string, now: number): string | undefined {
+  const time = Date.parse(targetTime)
+  if (!TIMESTAMP_PATTERN.test(targetTime) || Number.isNaN(time)) {
+    return `Invalid target_time: ${targetTime}. Must be an ISO 8601 timestamp with a time zone, e.g. 2025-10-01T15:29:00Z`
+  }
+  if (time > now) {
+    return `Invalid target_time: ${targetTime} is in the future`
+  }
+}
+
+/**
+ * Checks the CPU and memory of the fork
+ * Each can be left out to use the allocation of the parent service, but when
+ * both are set they must form one of the compute sizes
+ *
+ * @param cpuMillis - The cpu_millis of the request
+ * @param memoryGbs - The memory_gbs of the request
+ * @returns The problems
+ */
+function checkResources(cpuMillis?: string, memoryGbs?: string): string[] {
+  const problems: string[] = []
+  if (cpuMillis === 'shared' || memoryGbs === 'shared') {
+    if (cpuMillis !== memoryGbs) {
+      problems.push(
+        `Invalid cpu_millis and memory_gbs: ${cpuMillis || '(not set)'} and ${memoryGbs || '(not set)'}. shared must be used for both`
+      )
+    }
+    return problems
+  }
+
+  const size = COMPUTE_SIZES.find(([cpu]) => cpu === cpuMillis)
+  if (cpuMillis && !size) {
+    problems.push(
+      `Invalid cpu_millis: ${cpuMillis}. Must be shared or one of ${COMPUTE_SIZES.map(([cpu]) => cpu).join(', ')}`
+    )
+  }
+  if (memoryGbs && !COMPUTE_SIZES.some(([, memory]) => memory === memoryGbs)) {
+    problems.push(
+      `Invalid memory_gbs: ${memoryGbs}. Must be shared or one of ${COMPUTE_SIZES.map(([, memory]) => memory).join(', ')}`
+    )
+  }
+  if (problems.length === 0 && size && memoryGbs && size[1] !== memoryGbs) {
+    problems.push(
+      `Invalid cpu_millis and memory_gbs: ${cpuMillis} milli-cores come with ${size[1]} GB of memory, not ${memoryGbs}`
+    )
+  }
+  return problems
+}
+
+/**
+ * Checks the name of the fork
+ *
+ * @param name - The name
+ * @returns The problem, if any
+ */
+function checkName(name: string): string | undefined {
+  if (name.length > MAX_NAME_LENGTH) {
+    return `Invalid name: ${name}. Must be at most ${MAX_NAME_LENGTH} characters long`
+  }
+  if (!NAME_PATTERN.test(name)) {
+    return `Invalid name: ${name}. Must start with a letter or digit and contain only letters, digits, spaces, ., _ and -`
+  }
+}
+
+/**
+ * Checks a fork request before it is sent
+ *
+ * @param request - The request
+ * @param now - The current time in milliseconds
+ * @throws InputError listing every problem of the request
+ */
+export function validateForkRequest(
+  request: ForkServiceRequest,
+  now = Date.now()
+): void {
+  const problems = [
+    request.target_time !== undefined
+      ? checkTargetTime(request.target_time, now)
+      : undefined,
+    ...checkResources(request.cpu_millis, request.memory_gbs),
+    request.name !== undefined ? checkName(request.name) : undefined
+  ].filter((problem): problem is string => problem !== undefined)
+
+  if (problems.length > 0) {
+    throw new InputError(problems.join('\n'))
+  }
+}